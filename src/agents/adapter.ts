@@ -0,0 +1,187 @@
+import { existsSync } from 'fs';
+import { execSync } from 'child_process';
+import { JsoncDocument, isJsonObject } from '../jsonc.js';
+
+// Name of this MCP server in every agent config
+export const SERVER_NAME = 'ai-skills-hub';
+
+/**
+ * How an agent starts the ai-skills-hub MCP server
+ * startupTimeoutSec is only written for agents that support it (Codex)
+ */
+export interface McpServerConfig {
+  command: string;
+  args: string[];
+  env?: Record<string, string>;
+  startupTimeoutSec?: number;
+}
+
+/**
+ * One AI client that `sync`, `unsync` and `check` know how to configure
+ * - key: used by --only/--skip and for backups
+ * - cliTool: the command users type, for version information (null for IDE-based agents)
+ * - installHint: printed when the agent is not installed
+ * - manual: the agent's MCP config is not written by skillshub, sync only points at the config file
+ * - legacy: where older versions of the agent (or of skillshub) kept MCP servers
+ *
+ * Config contents are passed as strings ('' for a file that doesn't exist yet), so callers decide
+ * when to read, diff, back up and write; read, remove and verify throw on content they can't parse
+ */
+export interface AgentAdapter {
+  key: string;
+  name: string;
+  cliTool: string | null;
+  installHint?: string;
+  manual?: boolean;
+  /** Whether the agent is installed on this machine */
+  detect(): boolean;
+  /** The config file holding MCP servers, null when the agent has none on this OS */
+  configPath(): string | null;
+  /** The ai-skills-hub entry of the config, null when it is not configured */
+  read(content: string): McpServerConfig | null;
+  /** The config with the ai-skills-hub entry added or replaced */
+  upsert(content: string, server: McpServerConfig): string;
+  /** The config without the ai-skills-hub entry, null when there is nothing to remove */
+  remove(content: string): string | null;
+  /** Problems with the configured entry, empty when it is usable */
+  verify(content: string): string[];
+  legacy?: LegacyConfig;
+}
+
+/**
+ * An older config location: sync moves its servers into the adapter's config, unsync removes the entry from it too
+ */
+export interface LegacyConfig {
+  configPath(): string | null;
+  /** The ai-skills-hub entry of the legacy config, null when it is not configured */
+  read(content: string): McpServerConfig | null;
+  /** Both configs after moving the servers over, null when the legacy config has none */
+  migrate(legacyContent: string, content: string): { legacyContent: string; content: string } | null;
+  /** The legacy config without the ai-skills-hub entry, null when there is nothing to remove */
+  remove(content: string): string | null;
+}
+
+export function detectOS(): string {
+  const platform = process.platform;
+  if (platform === 'darwin') return 'macos';
+  if (platform === 'linux') return 'linux';
+  if (platform === 'win32') return 'windows';
+  return 'unknown';
+}
+
+export function homeDir(): string {
+  return process.env.HOME || process.env.USERPROFILE || '';
+}
+
+export function appDataDir(): string {
+  return process.env.APPDATA || '';
+}
+
+/**
+ * Check if a command exists in PATH using which/where
+ */
+export function commandExists(command: string): boolean {
+  try {
+    execSync(process.platform === 'win32' ? `where ${command}` : `which ${command}`, { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Open a JSON config file for editing, comments and trailing commas are allowed
+ * Throws when the file can't be parsed, so a config is never replaced by one that drops the user's settings
+ */
+export function openJsonConfig(content: string): JsoncDocument {
+  const doc = new JsoncDocument(content);
+  const root = doc.get([]);
+  if (root !== undefined && !isJsonObject(root)) {
+    throw new Error('Config file is not a JSON object');
+  }
+  return doc;
+}
+
+/**
+ * Parse a JSON config file, {} for an empty (new) file
+ */
+export function parseJsonObject(content: string): any {
+  return openJsonConfig(content).get([]) ?? {};
+}
+
+/**
+ * The server entry as written into JSON configs
+ */
+export function jsonServerEntry(server: McpServerConfig): { command: string; args: string[]; env?: Record<string, string> } {
+  return {
+    command: server.command,
+    args: server.args,
+    ...(server.env && Object.keys(server.env).length > 0 ? { env: server.env } : {}),
+  };
+}
+
+/**
+ * Problems shared by all agents: a missing command, or a server script that no longer exists
+ */
+export function verifyServerEntry(entry: McpServerConfig | null): string[] {
+  if (!entry) {
+    return ['not configured'];
+  }
+  if (!entry.command) {
+    return ['no command'];
+  }
+  const script = Array.isArray(entry.args) ? entry.args[0] : undefined;
+  if (entry.command === 'node' && script && !existsSync(script)) {
+    return [`server script not found: ${script}`];
+  }
+  return [];
+}
+
+/**
+ * Adapter for agents that keep MCP servers under `mcpServers` in a JSON file
+ * (Claude Desktop, Cursor, Claude Code)
+ */
+export function createMcpServersAdapter(
+  agent: Omit<AgentAdapter, 'read' | 'upsert' | 'remove' | 'verify'>
+): AgentAdapter {
+  const read = (content: string): McpServerConfig | null => {
+    const servers = parseJsonObject(content).mcpServers;
+    return servers && typeof servers === 'object' ? servers[SERVER_NAME] ?? null : null;
+  };
+
+  return {
+    ...agent,
+    read,
+    upsert(content, server) {
+      const doc = openJsonConfig(content);
+      doc.set(['mcpServers', SERVER_NAME], jsonServerEntry(server));
+      return doc.toString();
+    },
+    remove(content) {
+      const doc = openJsonConfig(content);
+      return doc.delete(['mcpServers', SERVER_NAME]) ? doc.toString() : null;
+    },
+    verify(content) {
+      return verifyServerEntry(read(content));
+    },
+  };
+}
+
+/**
+ * Adapter for agents whose MCP support skillshub doesn't configure (yet)
+ * sync only makes sure the config file exists and shows where it is
+ */
+export function createManualAdapter(
+  agent: Omit<AgentAdapter, 'manual' | 'read' | 'upsert' | 'remove' | 'verify'>
+): AgentAdapter {
+  return {
+    ...agent,
+    manual: true,
+    read: () => null,
+    upsert() {
+      throw new Error(`${agent.name} MCP configuration has to be set up manually`);
+    },
+    remove: () => null,
+    verify: () => ['not configured'],
+  };
+}
@@ -0,0 +1,13 @@
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { createMcpServersAdapter, commandExists, homeDir } from './adapter.js';
+
+export const claudeCode = createMcpServersAdapter({
+  key: 'claude-code',
+  name: 'Claude Code CLI',
+  cliTool: 'claude',
+  installHint: 'npm install -g @anthropic-ai/claude-code',
+  // `claude migrate-installer` removes the executable from PATH and installs it at ~/.claude/local/claude
+  detect: () => existsSync(join(homeDir(), '.claude', 'local', 'claude')) || commandExists('claude') || commandExists('claude-code'),
+  configPath: () => `${homeDir()}/.claude.json`,
+});
@@ -0,0 +1,25 @@
+import { existsSync } from 'fs';
+import { dirname } from 'path';
+import { createMcpServersAdapter, detectOS, homeDir, appDataDir } from './adapter.js';
+
+function configPath(): string | null {
+  const paths: Record<string, string> = {
+    macos: `${homeDir()}/Library/Application Support/Claude/claude_desktop_config.json`,
+    linux: `${homeDir()}/.config/Claude/claude_desktop_config.json`,
+    windows: `${appDataDir()}/Claude/claude_desktop_config.json`,
+  };
+  return paths[detectOS()] || null;
+}
+
+export const claudeDesktop = createMcpServersAdapter({
+  key: 'claude-desktop',
+  name: 'Claude Desktop',
+  cliTool: null,
+  installHint: 'Download from https://claude.ai/download',
+  // The app creates its settings directory on first start
+  detect: () => {
+    const path = configPath();
+    return path !== null && existsSync(dirname(path));
+  },
+  configPath,
+});
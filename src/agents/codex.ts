@@ -0,0 +1,77 @@
+import { AgentAdapter, McpServerConfig, SERVER_NAME, commandExists, detectOS, homeDir, appDataDir, verifyServerEntry } from './adapter.js';
+import { TomlDocument, isTomlTable } from '../toml.js';
+
+// Key path of our entry: [mcp_servers.ai-skills-hub]
+const HUB_PATH = ['mcp_servers', SERVER_NAME];
+
+function configPath(): string | null {
+  return detectOS() === 'windows' ? `${appDataDir()}/codex/config.toml` : `${homeDir()}/.codex/config.toml`;
+}
+
+/**
+ * Read the ai-skills-hub entry, whether it is a [table], an inline table or dotted keys
+ * Returns null if configuration not found
+ */
+function read(content: string): McpServerConfig | null {
+  const entry = new TomlDocument(content).get(HUB_PATH);
+  if (!isTomlTable(entry)) {
+    return null;
+  }
+
+  const config: McpServerConfig = {
+    command: typeof entry.command === 'string' ? entry.command : '',
+    args: Array.isArray(entry.args) ? entry.args.filter((arg): arg is string => typeof arg === 'string') : [],
+  };
+  if (isTomlTable(entry.env)) {
+    config.env = {};
+    for (const [name, value] of Object.entries(entry.env)) {
+      if (typeof value === 'string') config.env[name] = value;
+    }
+  }
+  if (typeof entry.startup_timeout_sec === 'number') {
+    config.startupTimeoutSec = entry.startup_timeout_sec;
+  }
+  return config;
+}
+
+/**
+ * OpenAI Codex CLI keeps MCP servers as [mcp_servers.<name>] tables in ~/.codex/config.toml
+ * The file is edited in place, so comments, ordering and other servers are left untouched
+ */
+export const codex: AgentAdapter = {
+  key: 'codex',
+  name: 'OpenAI Codex CLI',
+  cliTool: 'codex',
+  installHint: 'npm install -g @openai/codex',
+  detect: () => commandExists('codex'),
+  configPath,
+  read,
+  /**
+   * Set command and args (plus env and startup_timeout_sec when configured)
+   * Keys the user added to the entry, e.g. other env variables, are kept
+   */
+  upsert(content, server) {
+    const doc = new TomlDocument(content);
+    doc.ensureTable(HUB_PATH);
+    doc.set([...HUB_PATH, 'command'], server.command);
+    doc.set([...HUB_PATH, 'args'], server.args);
+    for (const [name, value] of Object.entries(server.env ?? {})) {
+      doc.set([...HUB_PATH, 'env', name], value);
+    }
+    if (server.startupTimeoutSec !== undefined) {
+      doc.set([...HUB_PATH, 'startup_timeout_sec'], server.startupTimeoutSec);
+    }
+    return doc.toString();
+  },
+  /**
+   * Remove the [mcp_servers.ai-skills-hub] table and its subtables (e.g. .env)
+   * Everything else, comments included, is kept as it is
+   */
+  remove(content) {
+    const doc = new TomlDocument(content);
+    return doc.delete(HUB_PATH) ? doc.toString() : null;
+  },
+  verify(content) {
+    return verifyServerEntry(read(content));
+  },
+};
@@ -0,0 +1,12 @@
+import { createManualAdapter, commandExists, detectOS, homeDir, appDataDir } from './adapter.js';
+
+export const copilot = createManualAdapter({
+  key: 'copilot',
+  name: 'GitHub Copilot CLI',
+  cliTool: 'copilot',
+  installHint: 'brew install copilot-cli or npm install -g @github/copilot-cli',
+  detect: () => commandExists('copilot'),
+  configPath: () => detectOS() === 'windows'
+    ? `${appDataDir()}/github-copilot/config.json`
+    : `${homeDir()}/.config/github-copilot/config.json`,
+});
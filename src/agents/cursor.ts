@@ -0,0 +1,87 @@
+import { existsSync, readdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { createMcpServersAdapter, commandExists, detectOS, homeDir, appDataDir } from './adapter.js';
+
+function configPath(): string | null {
+  const paths: Record<string, string> = {
+    macos: `${homeDir()}/.cursor/mcp.json`,
+    linux: `${homeDir()}/.config/cursor/mcp.json`,
+    windows: `${appDataDir()}/Cursor/User/mcp.json`,
+  };
+  return paths[detectOS()] || null;
+}
+
+function checkCursorInstalled(): boolean {
+  const platform = process.platform;
+  
+  if (platform === 'darwin') {
+    // macOS: Check for Cursor.app in common locations
+    const paths = [
+      '/Applications/Cursor.app',
+      `${homeDir()}/Applications/Cursor.app`
+    ];
+    return paths.some(path => existsSync(path));
+  } else if (platform === 'linux') {
+    // Linux: Check if cursor command exists or check common AppImage locations
+    if (commandExists('cursor')) {
+      return true;
+    }
+    
+    // Try to find AppImage files in ~/Applications
+    try {
+      const appsDir = join(homeDir(), 'Applications');
+      if (existsSync(appsDir)) {
+        const files = readdirSync(appsDir);
+        if (files.some((f: string) => f.toLowerCase().includes('cursor') && f.endsWith('.AppImage'))) {
+          return true;
+        }
+      }
+    } catch {
+      // Ignore errors
+    }
+    
+    // Check other common paths
+    const commonPaths = [
+      join(homeDir(), '.local', 'bin', 'cursor'),
+      '/usr/bin/cursor',
+      '/usr/local/bin/cursor',
+      '/opt/cursor/cursor'
+    ];
+    
+    return commonPaths.some(path => existsSync(path));
+  } else if (platform === 'win32') {
+    // Windows: Check common installation paths
+    const localAppData = process.env.LOCALAPPDATA || '';
+    const programFiles = process.env.ProgramFiles || '';
+    const programFilesX86 = process.env['ProgramFiles(x86)'] || '';
+    
+    const paths = [
+      join(localAppData, 'Programs', 'cursor', 'Cursor.exe'),
+      join(programFiles, 'Cursor', 'Cursor.exe'),
+      join(programFilesX86, 'Cursor', 'Cursor.exe'),
+      join(appDataDir(), 'Cursor', 'Cursor.exe')
+    ];
+    
+    // Also check if cursor command exists in PATH
+    if (commandExists('cursor')) {
+      return true;
+    }
+    
+    return paths.some(path => existsSync(path));
+  }
+  
+  return false;
+}
+
+export const cursor = createMcpServersAdapter({
+  key: 'cursor',
+  name: 'Cursor',
+  cliTool: null,
+  installHint: 'Download from https://cursor.sh',
+  // An existing config directory counts too, Cursor may be installed somewhere the checks don't look
+  detect: () => {
+    const path = configPath();
+    return checkCursorInstalled() || (path !== null && existsSync(dirname(path)));
+  },
+  configPath,
+});
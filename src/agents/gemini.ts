@@ -0,0 +1,12 @@
+import { createManualAdapter, commandExists, detectOS, homeDir, appDataDir } from './adapter.js';
+
+export const gemini = createManualAdapter({
+  key: 'gemini',
+  name: 'Gemini CLI',
+  cliTool: 'gemini',
+  installHint: 'npm install -g @google/gemini-cli',
+  detect: () => commandExists('gemini'),
+  configPath: () => detectOS() === 'windows'
+    ? `${appDataDir()}/gemini/config.json`
+    : `${homeDir()}/.config/gemini/config.json`,
+});
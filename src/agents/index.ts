@@ -0,0 +1,53 @@
+import { resolve } from 'path';
+import { AgentAdapter } from './adapter.js';
+import { claudeDesktop } from './claude-desktop.js';
+import { cursor } from './cursor.js';
+import { vscode, createVSCodeWorkspaceAdapter } from './vscode.js';
+import { codex } from './codex.js';
+import { copilot } from './copilot.js';
+import { gemini } from './gemini.js';
+import { claudeCode } from './claude-code.js';
+
+export * from './adapter.js';
+
+// Every supported agent, in the order sync, unsync and check go through them
+// A new client only needs an adapter added here
+export const AGENT_ADAPTERS: AgentAdapter[] = [
+  claudeDesktop,
+  cursor,
+  vscode,
+  codex,
+  copilot,
+  gemini,
+  claudeCode,
+];
+
+export function getAgentAdapter(key: string): AgentAdapter | undefined {
+  return AGENT_ADAPTERS.find(adapter => adapter.key === key);
+}
+
+function parseAgentKeys(list: string, option: string): string[] {
+  const keys = list.split(',').map(key => key.trim()).filter(Boolean);
+  const unknown = keys.filter(key => !getAgentAdapter(key));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown agent(s) in ${option}: ${unknown.join(', ')} (available: ${AGENT_ADAPTERS.map(adapter => adapter.key).join(', ')})`);
+  }
+  return keys;
+}
+
+/**
+ * Apply the --only and --skip options (comma separated agent keys), all agents when both are omitted
+ * --workspace adds the workspace's .vscode/mcp.json right after VS Code, whether or not `vscode` itself is selected
+ */
+export function selectAgents(options: { only?: string; skip?: string; workspace?: string }): AgentAdapter[] {
+  const only = options.only ? parseAgentKeys(options.only, '--only') : null;
+  const skip = options.skip ? parseAgentKeys(options.skip, '--skip') : [];
+  const selected = AGENT_ADAPTERS.filter(adapter => (!only || only.includes(adapter.key)) && !skip.includes(adapter.key));
+  if (!options.workspace) {
+    return selected;
+  }
+  const workspace = createVSCodeWorkspaceAdapter(resolve(options.workspace));
+  const vscodeIndex = AGENT_ADAPTERS.findIndex(adapter => adapter.key === 'vscode');
+  const before = selected.filter(adapter => AGENT_ADAPTERS.indexOf(adapter) <= vscodeIndex);
+  return [...before, workspace, ...selected.slice(before.length)];
+}
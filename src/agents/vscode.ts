@@ -0,0 +1,232 @@
+import { existsSync } from 'fs';
+import { join } from 'path';
+import {
+  AgentAdapter,
+  LegacyConfig,
+  McpServerConfig,
+  SERVER_NAME,
+  commandExists,
+  detectOS,
+  homeDir,
+  appDataDir,
+  parseJsonObject,
+  openJsonConfig,
+  jsonServerEntry,
+  verifyServerEntry,
+} from './adapter.js';
+import { JsonValue, isJsonObject } from '../jsonc.js';
+
+// The VS Code user profile directory, holding settings.json and mcp.json
+function userDir(): string | null {
+  const paths: Record<string, string> = {
+    macos: `${homeDir()}/Library/Application Support/Code/User`,
+    linux: `${homeDir()}/.config/Code/User`,
+    windows: `${appDataDir()}/Code/User`,
+  };
+  return paths[detectOS()] || null;
+}
+
+function configPath(): string | null {
+  const dir = userDir();
+  return dir ? `${dir}/mcp.json` : null;
+}
+
+function checkVSCodeInstalled(): boolean {
+  const platform = process.platform;
+  
+  if (platform === 'darwin') {
+    // macOS: Check for Visual Studio Code.app in common locations
+    const paths = [
+      '/Applications/Visual Studio Code.app',
+      `${homeDir()}/Applications/Visual Studio Code.app`
+    ];
+    return paths.some(path => existsSync(path));
+  } else if (platform === 'linux') {
+    // Linux: Check if code command exists
+    if (commandExists('code')) {
+      return true;
+    }
+    
+    // Check common installation paths
+    const commonPaths = [
+      join(homeDir(), '.local', 'bin', 'code'),
+      '/usr/bin/code',
+      '/usr/local/bin/code',
+      '/opt/visual-studio-code/code'
+    ];
+    
+    return commonPaths.some(path => existsSync(path));
+  } else if (platform === 'win32') {
+    // Windows: Check common installation paths
+    const localAppData = process.env.LOCALAPPDATA || '';
+    const programFiles = process.env.ProgramFiles || '';
+    const programFilesX86 = process.env['ProgramFiles(x86)'] || '';
+    
+    const paths = [
+      join(localAppData, 'Programs', 'Microsoft VS Code', 'Code.exe'),
+      join(programFiles, 'Microsoft VS Code', 'Code.exe'),
+      join(programFilesX86, 'Microsoft VS Code', 'Code.exe')
+    ];
+    
+    // Also check if code command exists in PATH
+    if (commandExists('code')) {
+      return true;
+    }
+    
+    return paths.some(path => existsSync(path));
+  }
+  
+  return false;
+}
+
+function read(content: string): (McpServerConfig & { type?: string }) | null {
+  const servers = parseJsonObject(content).servers;
+  return servers && typeof servers === 'object' ? servers[SERVER_NAME] ?? null : null;
+}
+
+/**
+ * VS Code keeps MCP servers under `servers` in mcp.json, with an explicit transport type
+ * Only our entry is written, the user's other servers and inputs are left as they are
+ */
+function createVSCodeMcpAdapter(agent: Pick<AgentAdapter, 'key' | 'name' | 'installHint' | 'detect' | 'configPath' | 'legacy'>): AgentAdapter {
+  return {
+    ...agent,
+    cliTool: null,
+    read,
+    upsert(content, server) {
+      const doc = openJsonConfig(content);
+      doc.set(['servers', SERVER_NAME], { type: 'stdio', ...jsonServerEntry(server) });
+      return doc.toString();
+    },
+    remove(content) {
+      const doc = openJsonConfig(content);
+      return doc.delete(['servers', SERVER_NAME]) ? doc.toString() : null;
+    },
+    verify(content) {
+      const entry = read(content);
+      const problems = verifyServerEntry(entry);
+      if (entry && entry.type !== 'stdio') {
+        problems.push(`type is ${entry.type ?? 'missing'}, expected stdio`);
+      }
+      return problems;
+    },
+  };
+}
+
+// Where older VS Code versions (and skillshub) put MCP servers in settings.json: the `mcp` setting,
+// written either as an object or as `mcp.servers`/`mcp.inputs` keys
+const LEGACY_SERVERS = [['mcp.servers'], ['mcp', 'servers']];
+const LEGACY_INPUTS = [['mcp.inputs'], ['mcp', 'inputs']];
+
+function inputId(input: JsonValue): JsonValue | undefined {
+  return isJsonObject(input) ? input.id : undefined;
+}
+
+/**
+ * The `mcp` servers and inputs in the user settings.json, moved to mcp.json by sync
+ * Servers and inputs that mcp.json already has are kept as they are there
+ */
+const legacySettings: LegacyConfig = {
+  configPath() {
+    const dir = userDir();
+    return dir ? `${dir}/settings.json` : null;
+  },
+  read(content) {
+    const doc = openJsonConfig(content);
+    for (const path of LEGACY_SERVERS) {
+      const entry = doc.get([...path, SERVER_NAME]);
+      if (isJsonObject(entry)) {
+        return entry as unknown as McpServerConfig;
+      }
+    }
+    return null;
+  },
+  migrate(legacyContent, content) {
+    const legacy = openJsonConfig(legacyContent);
+    const doc = openJsonConfig(content);
+    let found = false;
+
+    for (const path of LEGACY_SERVERS) {
+      const servers = legacy.get(path);
+      if (servers === undefined) continue;
+      found = true;
+      if (isJsonObject(servers)) {
+        for (const [name, entry] of Object.entries(servers)) {
+          if (doc.get(['servers', name]) === undefined) {
+            doc.set(['servers', name], entry);
+          }
+        }
+      }
+      legacy.delete(path);
+    }
+
+    for (const path of LEGACY_INPUTS) {
+      const inputs = legacy.get(path);
+      if (inputs === undefined) continue;
+      found = true;
+      const existing = doc.get(['inputs']);
+      const current = Array.isArray(existing) ? existing : [];
+      const added = (Array.isArray(inputs) ? inputs : [])
+        .filter(input => !current.some(other => inputId(other) !== undefined && inputId(other) === inputId(input)));
+      if (added.length > 0) {
+        doc.set(['inputs'], [...current, ...added]);
+      }
+      legacy.delete(path);
+    }
+
+    if (!found) {
+      return null;
+    }
+    // An `mcp` object left empty goes too
+    const mcp = legacy.get(['mcp']);
+    if (isJsonObject(mcp) && Object.keys(mcp).length === 0) {
+      legacy.delete(['mcp']);
+    }
+    return { legacyContent: legacy.toString(), content: doc.toString() };
+  },
+  // The servers map and an empty inputs list are dropped when nothing else is left in them,
+  // sync created them for the hub alone
+  remove(content) {
+    const doc = openJsonConfig(content);
+    for (const [idx, path] of LEGACY_SERVERS.entries()) {
+      if (!doc.delete([...path, SERVER_NAME])) continue;
+      const servers = doc.get(path);
+      if (isJsonObject(servers) && Object.keys(servers).length === 0) {
+        doc.delete(path);
+        const inputs = doc.get(LEGACY_INPUTS[idx]);
+        if (Array.isArray(inputs) && inputs.length === 0) {
+          doc.delete(LEGACY_INPUTS[idx]);
+        }
+      }
+      return doc.toString();
+    }
+    return null;
+  },
+};
+
+/**
+ * VS Code user profile mcp.json, servers configured in settings.json by older versions are migrated
+ */
+export const vscode: AgentAdapter = createVSCodeMcpAdapter({
+  key: 'vscode',
+  name: 'VS Code',
+  installHint: 'Download from https://code.visualstudio.com',
+  detect: () => {
+    const dir = userDir();
+    return checkVSCodeInstalled() || (dir !== null && existsSync(dir));
+  },
+  configPath,
+  legacy: legacySettings,
+});
+
+/**
+ * The .vscode/mcp.json of one workspace, only configured when asked for with --workspace
+ */
+export function createVSCodeWorkspaceAdapter(workspaceDir: string): AgentAdapter {
+  return createVSCodeMcpAdapter({
+    key: 'vscode-workspace',
+    name: `VS Code workspace (${workspaceDir})`,
+    detect: () => existsSync(workspaceDir),
+    configPath: () => join(workspaceDir, '.vscode', 'mcp.json'),
+  });
+}
@@ -0,0 +1,118 @@
+import { SkillArgument, ArgumentValue, matchesArgumentType } from './manifest.js';
+
+/**
+ * Result of validating call_tool / prompts/get arguments against a skill's declared arguments
+ * - values: validated values with defaults applied (only declared arguments)
+ * - issues: one message per invalid, missing or unknown argument
+ */
+export interface ArgumentValidation {
+  values: Record<string, ArgumentValue>;
+  issues: string[];
+}
+
+/**
+ * Build the JSON Schema advertised as a skill tool's inputSchema
+ */
+export function buildInputSchema(args: SkillArgument[]) {
+  const properties: Record<string, Record<string, unknown>> = {};
+  for (const arg of args) {
+    const property: Record<string, unknown> = { type: arg.type };
+    if (arg.description) {
+      property.description = arg.description;
+    }
+    if (arg.enum) {
+      property.enum = arg.enum;
+    }
+    if (arg.default !== undefined) {
+      property.default = arg.default;
+    }
+    properties[arg.name] = property;
+  }
+
+  return {
+    type: 'object' as const,
+    properties,
+    required: args.filter(arg => arg.required).map(arg => arg.name),
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Validate input against declared arguments and apply defaults
+ * Prompt arguments are always strings, `coerceStrings` converts them to the declared type first
+ */
+export function validateArguments(
+  args: SkillArgument[],
+  input: Record<string, unknown> | undefined,
+  coerceStrings = false
+): ArgumentValidation {
+  const values: Record<string, ArgumentValue> = {};
+  const issues: string[] = [];
+  const provided = input || {};
+
+  for (const name of Object.keys(provided)) {
+    if (!args.some(arg => arg.name === name)) {
+      issues.push(`Unknown argument "${name}"`);
+    }
+  }
+
+  for (const arg of args) {
+    let value = hasOwn(provided, arg.name) ? provided[arg.name] : undefined;
+    if (value === undefined || value === null || (coerceStrings && value === '')) {
+      if (arg.default !== undefined) {
+        values[arg.name] = arg.default;
+      } else if (arg.required) {
+        issues.push(`Missing required argument "${arg.name}"`);
+      }
+      continue;
+    }
+
+    if (coerceStrings && typeof value === 'string') {
+      value = coerceString(value, arg);
+    }
+    if (!matchesArgumentType(value, arg.type)) {
+      issues.push(`Argument "${arg.name}" must be a ${arg.type}`);
+      continue;
+    }
+    if (arg.enum && !arg.enum.includes(value)) {
+      issues.push(`Argument "${arg.name}" must be one of: ${arg.enum.join(', ')}`);
+      continue;
+    }
+    values[arg.name] = value;
+  }
+
+  return { values, issues };
+}
+
+// Own properties only: names like "constructor" or "toString" must not resolve to Object.prototype members
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function coerceString(value: string, arg: SkillArgument): unknown {
+  const trimmed = value.trim();
+  switch (arg.type) {
+    case 'number':
+    case 'integer':
+      return trimmed && !Number.isNaN(Number(trimmed)) ? Number(trimmed) : value;
+    case 'boolean':
+      return trimmed === 'true' ? true : trimmed === 'false' ? false : value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Replace `{{name}}` placeholders of declared arguments
+ * Placeholders of undeclared names are left untouched (they may belong to other templating),
+ * declared arguments without a value are replaced with an empty string
+ */
+export function substitutePlaceholders(text: string, args: SkillArgument[], values: Record<string, ArgumentValue>): string {
+  const declared = new Set(args.map(arg => arg.name));
+  return text.replace(/\{\{\s*([A-Za-z_][A-Za-z0-9_-]*)\s*\}\}/g, (placeholder, name: string) => {
+    if (!declared.has(name)) {
+      return placeholder;
+    }
+    return hasOwn(values, name) ? String(values[name]) : '';
+  });
+}
@@ -0,0 +1,135 @@
+import { readFile, writeFile, rename, mkdir, copyFile, rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, dirname, basename } from 'path';
+import { randomBytes } from 'crypto';
+import { USER_SKILLS_DIR, readUserSettings } from './utils.js';
+
+export const CONFIG_BACKUPS_DIR = join(dirname(USER_SKILLS_DIR), 'backups');
+export const BACKUP_MANIFEST_FILE = join(CONFIG_BACKUPS_DIR, 'manifest.json');
+
+// Backups kept per config file when settings.json doesn't say otherwise
+export const DEFAULT_BACKUP_RETENTION = 10;
+
+const MANIFEST_VERSION = 1;
+
+/**
+ * A copy of an agent config file taken before it was changed
+ * - file: the copy, relative to the backups directory
+ * - createdAt: ISO timestamp, also what `restore --at` matches
+ */
+export interface BackupEntry {
+  agent: string;
+  configPath: string;
+  file: string;
+  createdAt: string;
+}
+
+export interface BackupManifest {
+  version: number;
+  backups: BackupEntry[];
+}
+
+/**
+ * Read ~/.ai-skills-hub/backups/manifest.json, an empty manifest when it doesn't exist yet
+ */
+export async function readBackupManifest(): Promise<BackupManifest> {
+  if (!existsSync(BACKUP_MANIFEST_FILE)) {
+    return { version: MANIFEST_VERSION, backups: [] };
+  }
+
+  let parsed: BackupManifest;
+  try {
+    parsed = JSON.parse(await readFile(BACKUP_MANIFEST_FILE, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read ${BACKUP_MANIFEST_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.backups)) {
+    throw new Error(`Invalid backup manifest ${BACKUP_MANIFEST_FILE}: missing "backups"`);
+  }
+  return parsed;
+}
+
+async function writeBackupManifest(manifest: BackupManifest): Promise<void> {
+  await mkdir(CONFIG_BACKUPS_DIR, { recursive: true });
+  const tmpFile = `${BACKUP_MANIFEST_FILE}.tmp`;
+  await writeFile(tmpFile, JSON.stringify({ version: MANIFEST_VERSION, backups: manifest.backups }, null, 2) + '\n', 'utf-8');
+  await rename(tmpFile, BACKUP_MANIFEST_FILE);
+}
+
+/**
+ * Number of backups kept per config file (`backups.retention` in settings.json)
+ */
+export async function getBackupRetention(): Promise<number> {
+  const { backups } = await readUserSettings();
+  const retention = backups?.retention;
+  return typeof retention === 'number' && Number.isInteger(retention) && retention > 0 ? retention : DEFAULT_BACKUP_RETENTION;
+}
+
+/**
+ * Copy a config file into the backups directory and record it in the manifest
+ * The oldest backups of the same file beyond the retention are deleted
+ * Returns null when the config file doesn't exist (there is nothing to back up)
+ */
+export async function createConfigBackup(agent: string, configPath: string): Promise<BackupEntry | null> {
+  if (!existsSync(configPath)) {
+    return null;
+  }
+
+  const manifest = await readBackupManifest();
+  const createdAt = new Date().toISOString();
+  const file = join(agent, `${createdAt.replace(/[:.]/g, '-')}-${randomBytes(3).toString('hex')}-${basename(configPath)}`);
+  await mkdir(join(CONFIG_BACKUPS_DIR, agent), { recursive: true });
+  await copyFile(configPath, join(CONFIG_BACKUPS_DIR, file));
+
+  const entry: BackupEntry = { agent, configPath, file, createdAt };
+  manifest.backups.push(entry);
+
+  const retention = await getBackupRetention();
+  const sameConfig = manifest.backups
+    .filter(backup => backup.configPath === configPath)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const pruned = new Set(sameConfig.slice(retention));
+  for (const backup of pruned) {
+    await rm(join(CONFIG_BACKUPS_DIR, backup.file), { force: true });
+  }
+  manifest.backups = manifest.backups.filter(backup => !pruned.has(backup));
+
+  await writeBackupManifest(manifest);
+  return entry;
+}
+
+/**
+ * Backups of all agents (or one agent), newest first
+ */
+export async function listBackups(agent?: string): Promise<BackupEntry[]> {
+  const { backups } = await readBackupManifest();
+  return backups
+    .filter(backup => !agent || backup.agent === agent)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * The newest backup of each config file taken at or before the given time
+ */
+export function selectBackupsAt(backups: BackupEntry[], at: Date): BackupEntry[] {
+  const selected = new Map<string, BackupEntry>();
+  for (const backup of backups) {
+    if (new Date(backup.createdAt).getTime() > at.getTime()) continue;
+    const current = selected.get(backup.configPath);
+    if (!current || backup.createdAt > current.createdAt) {
+      selected.set(backup.configPath, backup);
+    }
+  }
+  return Array.from(selected.values());
+}
+
+/**
+ * Read the content of a backup
+ */
+export async function readBackup(backup: BackupEntry): Promise<string> {
+  const backupPath = join(CONFIG_BACKUPS_DIR, backup.file);
+  if (!existsSync(backupPath)) {
+    throw new Error(`Backup file is missing: ${backupPath}`);
+  }
+  return await readFile(backupPath, 'utf-8');
+}
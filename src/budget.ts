@@ -0,0 +1,132 @@
+import { readUserSettings, ResponseSettings } from './utils.js';
+
+export const DEFAULT_TOKEN_BUDGET = 8000;
+
+/**
+ * One heading section of a Markdown body, `text` includes the heading line
+ * Content before the first heading is a section with level 0 and an empty heading
+ */
+export interface MarkdownSection {
+  heading: string;
+  level: number;
+  text: string;
+}
+
+/**
+ * Read response settings with defaults applied
+ */
+export async function getResponseSettings(): Promise<Required<ResponseSettings>> {
+  const { responses } = await readUserSettings();
+  const tokenBudget = responses?.tokenBudget;
+  return {
+    tokenBudget: typeof tokenBudget === 'number' && tokenBudget > 0 ? tokenBudget : DEFAULT_TOKEN_BUDGET,
+    stripFrontmatter: responses?.stripFrontmatter === true,
+    compactWhitespace: responses?.compactWhitespace === true,
+  };
+}
+
+/**
+ * Rough token estimate without a tokenizer: about 4 characters per token for Latin text,
+ * one token per CJK character
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu)?.length || 0;
+  return Math.ceil((text.length - cjk) / 4) + cjk;
+}
+
+/**
+ * Drop trailing whitespace and collapse runs of blank lines, leaving code blocks untouched
+ */
+export function compactWhitespace(text: string): string {
+  const lines: string[] = [];
+  let inCodeBlock = false;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim().startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+    }
+    if (inCodeBlock) {
+      lines.push(line);
+      continue;
+    }
+
+    const trimmed = line.trimEnd();
+    if (!trimmed && lines.length > 0 && !lines[lines.length - 1]) {
+      continue;
+    }
+    lines.push(trimmed);
+  }
+
+  return lines.join('\n').trim() + '\n';
+}
+
+/**
+ * Split a Markdown body into heading sections (headings inside code blocks are ignored)
+ */
+export function parseSections(body: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  let current: MarkdownSection = { heading: '', level: 0, text: '' };
+  let inCodeBlock = false;
+
+  for (const line of body.split('\n')) {
+    if (line.trim().startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+    }
+
+    const headingMatch = !inCodeBlock && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (headingMatch) {
+      if (current.level > 0 || current.text.trim()) {
+        sections.push(current);
+      }
+      current = { heading: headingMatch[2], level: headingMatch[1].length, text: '' };
+    }
+    current.text += `${line}\n`;
+  }
+  sections.push(current);
+
+  return sections;
+}
+
+/**
+ * Find a section by heading (case-insensitive, surrounding `#` and whitespace ignored)
+ * The section is returned together with its subsections
+ */
+export function findSection(sections: MarkdownSection[], heading: string): MarkdownSection | null {
+  const wanted = heading.replace(/^#+\s*/, '').trim().toLowerCase();
+  const idx = sections.findIndex(section => section.level > 0 && section.heading.toLowerCase() === wanted);
+  if (idx < 0) {
+    return null;
+  }
+
+  const section = sections[idx];
+  let text = section.text;
+  for (const next of sections.slice(idx + 1)) {
+    if (next.level <= section.level) break;
+    text += next.text;
+  }
+  return { ...section, text };
+}
+
+/**
+ * Keep whole sections from the start of the body while they fit in `budget` tokens
+ * The first section is always kept (truncated if needed) so the response is never empty
+ */
+export function takeSections(sections: MarkdownSection[], budget: number): { included: MarkdownSection[]; truncated: boolean } {
+  const included: MarkdownSection[] = [];
+  let used = 0;
+
+  for (const section of sections) {
+    const tokens = estimateTokens(section.text);
+    if (used + tokens > budget) {
+      if (included.length === 0) {
+        included.push({ ...section, text: `${section.text.slice(0, budget * 4).trimEnd()}\n\n[...]\n` });
+        return { included, truncated: true };
+      }
+      break;
+    }
+    included.push(section);
+    used += tokens;
+  }
+
+  return { included, truncated: false };
+}
@@ -2,9 +2,14 @@
 
 import { Command } from 'commander';
 import { syncCommand } from './commands/sync.js';
+import { unsyncCommand } from './commands/unsync.js';
+import { restoreCommand } from './commands/restore.js';
 import { checkCommand } from './commands/check.js';
 import { listCommand } from './commands/list.js';
 import { addCommand } from './commands/add.js';
+import { updateCommand } from './commands/update.js';
+import { removeCommand } from './commands/remove.js';
+import { serveCommand } from './commands/serve.js';
 import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
@@ -29,16 +34,46 @@ program
   .alias('s')
   .description('Sync skills library and update AI tool configuration')
   .option('-f, --force', 'Force recompilation even if no changes')
+  .option('--dry-run', 'Show the config changes as a diff without writing anything')
+  .option('--confirm', 'Show the config changes and ask before updating each file')
+  .option('--only <agents>', 'Only these agents, comma separated (claude-desktop, cursor, vscode, codex, copilot, gemini, claude-code)')
+  .option('--skip <agents>', 'Skip these agents, comma separated')
+  .option('--workspace <dir>', 'Also configure the VS Code workspace <dir>/.vscode/mcp.json')
   .action(async (options) => {
     await syncCommand(options);
   });
 
+// unsync command
+program
+  .command('unsync')
+  .description('Remove the ai-skills-hub MCP server from AI tool configuration')
+  .option('--only <agents>', 'Only these agents, comma separated (claude-desktop, cursor, vscode, codex, copilot, gemini, claude-code)')
+  .option('--skip <agents>', 'Skip these agents, comma separated')
+  .option('--workspace <dir>', 'Also remove it from the VS Code workspace <dir>/.vscode/mcp.json')
+  .action(async (options) => {
+    await unsyncCommand(options);
+  });
+
+// restore command
+program
+  .command('restore')
+  .description('List AI tool config backups, or roll configs back to a backup with --at')
+  .option('--agent <agent>', 'Only backups of this agent (claude-desktop, cursor, vscode, vscode-workspace, codex, claude-code)')
+  .option('--at <timestamp>', 'Restore the newest backup taken at or before this time')
+  .option('-y, --yes', 'Restore without asking for confirmation')
+  .action(async (options) => {
+    await restoreCommand(options);
+  });
+
 // check command
 program
   .command('check')
   .alias('c')
   .description('Check skills library status and configuration')
   .option('-v, --verbose', 'Show detailed information')
+  .option('--only <agents>', 'Only check these agents, comma separated')
+  .option('--skip <agents>', 'Skip these agents, comma separated')
+  .option('--workspace <dir>', 'Also check the VS Code workspace <dir>/.vscode/mcp.json')
   .action(async (options) => {
     await checkCommand(options);
   });
@@ -56,12 +91,46 @@ program
 
 // add command
 program
-  .command('add <url>')
+  .command('add <source>')
   .alias('a')
-  .description('Add skill from GitHub URL to local directory')
+  .description('Add skills from a GitHub URL, local directory, git repository or archive to local directory')
   .option('-f, --force', 'Force overwrite existing skill')
-  .action(async (url, options) => {
-    await addCommand(url, options);
+  .option('-y, --yes', 'Install without asking for confirmation (all skills when the source has several)')
+  .option('-s, --skill <names...>', 'Only install these skills from the source')
+  .action(async (source, options) => {
+    await addCommand(source, options);
+  });
+
+// update command
+program
+  .command('update [skills...]')
+  .alias('u')
+  .description('Update skills installed with "add" from their sources, showing a diff of the changes')
+  .option('-f, --force', 'Overwrite skills with local edits')
+  .option('-y, --yes', 'Update without asking for confirmation')
+  .action(async (skills, options) => {
+    await updateCommand(skills, options);
+  });
+
+// remove command
+program
+  .command('remove <skills...>')
+  .alias('rm')
+  .description('Remove skills (by directory or tool name) from local directory, moving them to the trash')
+  .option('-y, --yes', 'Remove without asking for confirmation')
+  .action(async (skills, options) => {
+    await removeCommand(skills, options);
+  });
+
+// serve command
+program
+  .command('serve')
+  .description('Run the MCP server (stdio by default, or Streamable HTTP with --http)')
+  .option('--http', 'Serve over Streamable HTTP (with SSE fallback) instead of stdio')
+  .option('-p, --port <port>', 'HTTP port (default: 8787)')
+  .option('--host <host>', 'HTTP host to bind (default: 127.0.0.1)')
+  .action(async (options) => {
+    await serveCommand(options);
   });
 
 // help command (built-in to commander, but we can customize)
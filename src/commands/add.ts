@@ -1,121 +1,114 @@
-import { mkdirSync, writeFileSync } from 'fs';
-import { join, dirname } from 'path';
-import { homedir } from 'os';
 import { existsSync } from 'fs';
-
-const USER_SKILLS_DIR = join(homedir(), '.ai-skills-hub', 'skills');
+import { join } from 'path';
+import { USER_SKILLS_DIR } from '../utils.js';
+import { resolveSource, SourceSkill } from '../sources.js';
+import { installSkill, validateSkillFiles, formatFileMode, SkillFile } from '../install.js';
+import { confirm, isInteractive, selectItems } from '../prompt.js';
+import { recordInstalledSkills } from '../lockfile.js';
 
 interface AddOptions {
   force?: boolean;
+  yes?: boolean;
+  skill?: string[];
 }
 
 /**
- * Convert GitHub blob URL to raw URL
- * Example: https://github.com/n8n-io/n8n/blob/master/.claude/skills/create-pr/SKILL.md
- * Converts to: https://raw.githubusercontent.com/n8n-io/n8n/master/.claude/skills/create-pr/SKILL.md
+ * Print the files about to be installed with their permissions and sizes
  */
-function convertToRawUrl(url: string): string {
-  // If already a raw URL, return directly
-  if (url.includes('raw.githubusercontent.com')) {
-    return url;
-  }
-  
-  // Convert blob URL to raw URL
-  const blobPattern = /github\.com\/([^/]+\/[^/]+)\/blob\/(.+)/;
-  const match = url.match(blobPattern);
-  
-  if (match) {
-    const [, repo, path] = match;
-    return `https://raw.githubusercontent.com/${repo}/${path}`;
+function printFileList(files: SkillFile[]): void {
+  const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+  const sizeWidth = Math.max(...sorted.map(file => String(file.content.length).length));
+  for (const file of sorted) {
+    console.log(`  ${formatFileMode(file.mode)}  ${String(file.content.length).padStart(sizeWidth)}  ${file.path}`);
   }
-  
-  // If cannot convert, return original URL (may be other format)
-  return url;
+  const total = files.reduce((sum, file) => sum + file.content.length, 0);
+  console.log(`  ${files.length} file(s), ${total} bytes`);
 }
 
 /**
- * Extract skill name from URL
- * Example: https://raw.githubusercontent.com/n8n-io/n8n/master/.claude/skills/create-pr/SKILL.md
- * Extracts: create-pr
+ * Pick the skills to install from a source that contains several
+ * `--skill` selects by name, `--yes` takes all of them, otherwise the user is asked
  */
-function extractSkillName(url: string): string {
-  // Extract the last directory name from the path (before SKILL.md)
-  const parts = url.split('/');
-  const skillMdIndex = parts.findIndex(part => part === 'SKILL.md');
-  
-  if (skillMdIndex > 0) {
-    return parts[skillMdIndex - 1];
-  }
-  
-  // If not found, try to extract from URL path
-  const pathMatch = url.match(/\/([^/]+)\/SKILL\.md/);
-  if (pathMatch) {
-    return pathMatch[1];
+async function chooseSkills(skills: SourceSkill[], options: AddOptions): Promise<SourceSkill[]> {
+  if (options.skill && options.skill.length > 0) {
+    const unknown = options.skill.filter(name => !skills.some(skill => skill.name === name));
+    if (unknown.length > 0) {
+      throw new Error(`Skill(s) not found in source: ${unknown.join(', ')} (available: ${skills.map(skill => skill.name).join(', ')})`);
+    }
+    return skills.filter(skill => options.skill!.includes(skill.name));
   }
-  
-  // If still not found, use default name
-  return 'skill';
-}
 
-/**
- * Download file content
- */
-async function downloadFile(url: string): Promise<string> {
-  try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    return await response.text();
-  } catch (error) {
-    throw new Error(`Failed to download file from ${url}: ${error instanceof Error ? error.message : String(error)}`);
+  if (skills.length === 1 || options.yes) {
+    return skills;
   }
+  if (!isInteractive()) {
+    throw new Error(`Source contains ${skills.length} skills, choose with --skill <name...> or install all with --yes`);
+  }
+
+  const picked = await selectItems(
+    'Skills to install',
+    skills.map(skill => `${skill.name}${skill.path && skill.path !== skill.name ? ` (${skill.path})` : ''}, ${skill.files.length} file(s)`)
+  );
+  return picked.map(idx => skills[idx]);
 }
 
-export async function addCommand(url: string, options: AddOptions) {
+export async function addCommand(source: string, options: AddOptions) {
   console.log('\x1b[32m=== AI Skills Hub - Add Skill ===\x1b[0m\n');
-  
+
   try {
-    // 1. Convert URL to raw URL
-    console.log('\x1b[33m[1/3] Processing URL...\x1b[0m');
-    const rawUrl = convertToRawUrl(url);
-    console.log(`Original URL: ${url}`);
-    console.log(`Raw URL: ${rawUrl}`);
-    
-    // 2. Extract skill name
-    const skillName = extractSkillName(rawUrl);
-    console.log(`\n\x1b[33m[2/3] Extracting skill name...\x1b[0m`);
-    console.log(`Skill name: ${skillName}`);
-    
-    // 3. Ensure user skills directory exists
-    if (!existsSync(USER_SKILLS_DIR)) {
-      console.log(`\nCreating directory: ${USER_SKILLS_DIR}`);
-      mkdirSync(USER_SKILLS_DIR, { recursive: true });
+    // 1. Read the source and find the skills in it
+    console.log('\x1b[33m[1/3] Reading source...\x1b[0m');
+    console.log(`Source: ${source}`);
+    const resolved = await resolveSource(source);
+    console.log(`Found ${resolved.skills.length} skill(s) in ${resolved.description}`);
+    for (const path of resolved.skipped) {
+      console.log(`\x1b[33mSkipping symlink: ${path}\x1b[0m`);
     }
-    
-    // 4. Create skill directory
-    const skillDir = join(USER_SKILLS_DIR, skillName);
-    const skillFilePath = join(skillDir, 'SKILL.md');
-    
-    // Check if already exists
-    if (existsSync(skillFilePath) && !options.force) {
-      console.log(`\n\x1b[31mError: Skill "${skillName}" already exists\x1b[0m`);
+
+    // 2. Choose which skills to install
+    console.log(`\n\x1b[33m[2/3] Selecting skills...\x1b[0m`);
+    const selected = await chooseSkills(resolved.skills, options);
+    if (selected.length === 0) {
+      console.log('No skill selected, nothing was written');
+      return;
+    }
+
+    const names = selected.map(skill => skill.name);
+    const duplicate = names.find((name, idx) => names.indexOf(name) !== idx);
+    if (duplicate) {
+      throw new Error(`Several selected skills are named "${duplicate}", select only one of them with --skill`);
+    }
+
+    for (const skill of selected) {
+      validateSkillFiles(skill.name, skill.files);
+      console.log(`\nSkill name: ${skill.name}${skill.path && skill.path !== skill.name ? ` (${skill.path})` : ''}`);
+      printFileList(skill.files);
+    }
+
+    const existing = names.filter(name => existsSync(join(USER_SKILLS_DIR, name)));
+    if (existing.length > 0 && !options.force) {
+      console.log(`\n\x1b[31mError: Skill(s) already exist: ${existing.join(', ')}\x1b[0m`);
       console.log(`Use --force option to overwrite existing skill`);
       process.exit(1);
     }
-    
-    // 5. Download file
-    console.log(`\n\x1b[33m[3/3] Downloading SKILL.md...\x1b[0m`);
-    const content = await downloadFile(rawUrl);
-    
-    // 6. Save file
-    mkdirSync(skillDir, { recursive: true });
-    writeFileSync(skillFilePath, content, 'utf-8');
-    
-    console.log(`\n\x1b[32m✓ Skill successfully added!\x1b[0m`);
-    console.log(`\nLocation: ${skillFilePath}`);
+
+    // 3. Confirm, then install each skill atomically
+    console.log(`\n\x1b[33m[3/3] Installing...\x1b[0m`);
+    if (!options.yes && isInteractive() && !(await confirm(`Install ${names.map(name => `"${name}"`).join(', ')}?`))) {
+      console.log('Cancelled, nothing was written');
+      return;
+    }
+    const installed: string[] = [];
+    for (const skill of selected) {
+      installed.push(await installSkill(skill.name, skill.files, options.force));
+    }
+    // Remember where the skills came from, for `skillshub update`
+    await recordInstalledSkills(resolved, selected);
+
+    console.log(`\n\x1b[32m✓ ${installed.length === 1 ? 'Skill' : `${installed.length} skills`} successfully added!\x1b[0m`);
+    console.log(`\nLocation: ${installed.join(', ')}`);
     console.log(`\nTip: Run "skillshub sync" to update MCP configuration`);
-    
+
   } catch (error) {
     console.error('\n\x1b[31mError:', error instanceof Error ? error.message : String(error), '\x1b[0m');
     process.exit(1);
@@ -1,126 +1,46 @@
-import { existsSync, readFileSync, readdirSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
 import { execSync } from 'child_process';
 import { join } from 'path';
-import { homedir } from 'os';
+import {
+  getSkillRoots,
+  scanSkillLocations,
+  formatSkillRoot,
+  assignSkillToolNames,
+  getToolNamingScheme,
+} from '../utils.js';
+import { readLockfile, checkSkillUpdates, SkillUpdateStatus, SKILLS_LOCK_FILE } from '../lockfile.js';
+import { AgentAdapter, selectAgents } from '../agents/index.js';
 
 interface CheckOptions {
   verbose?: boolean;
-}
-
-interface AITool {
-  name: string;
-  checkInstalled: () => boolean;
-  getConfigPath: () => string | null;
-}
-
-/**
- * Agent configuration - similar to spec-kit's AGENT_CONFIG
- * Each agent has:
- * - name: Display name
- * - cliTool: Actual CLI command name (what users type in terminal)
- * - requiresCli: Whether CLI tool check is needed
- * - installUrl: Installation documentation URL (optional)
- */
-interface AgentConfig {
-  name: string;
-  cliTool: string | null; // null for IDE-based agents
-  requiresCli: boolean;
-  installUrl?: string | null;
-}
-
-const AGENT_CONFIG: Record<string, AgentConfig> = {
-  'copilot': {
-    name: 'GitHub Copilot CLI',
-    cliTool: 'copilot',
-    requiresCli: true,
-    installUrl: 'https://github.com/github/copilot-cli',
-  },
-  'claude-code': {
-    name: 'Claude Code',
-    cliTool: 'claude', // Actual CLI tool name
-    requiresCli: true,
-    installUrl: 'https://docs.anthropic.com/en/docs/claude-code/setup',
-  },
-  'cursor': {
-    name: 'Cursor',
-    cliTool: null, // IDE-based, but may have CLI
-    requiresCli: false,
-    installUrl: 'https://cursor.sh',
-  },
-  'gemini': {
-    name: 'Gemini CLI',
-    cliTool: 'gemini',
-    requiresCli: true,
-    installUrl: 'https://github.com/google-gemini/gemini-cli',
-  },
-
-  'codex': {
-    name: 'OpenAI Codex CLI',
-    cliTool: 'codex',
-    requiresCli: true,
-    installUrl: 'https://github.com/openai/codex',
-  },
-  'vscode': {
-    name: 'VS Code',
-    cliTool: null, // IDE-based, but may have CLI
-    requiresCli: false,
-    installUrl: 'https://code.visualstudio.com',
-  },
-};
-
-/**
- * Check if a CLI tool is installed (similar to spec-kit's check_tool)
- * Uses which/where command to check if tool exists in PATH
- * 
- * Special handling for Claude CLI after `claude migrate-installer`:
- * The migrate-installer command REMOVES the original executable from PATH
- * and creates an alias at ~/.claude/local/claude instead
- */
-function checkTool(tool: string): boolean {
-  // Special handling for Claude CLI
-  if (tool === 'claude') {
-    const claudeLocalPath = join(homedir(), '.claude', 'local', 'claude');
-    if (existsSync(claudeLocalPath)) {
-      return true;
-    }
-  }
-
-  // Check if tool exists in PATH using which/where
-  return checkCommandInstalled(tool);
+  only?: string;
+  skip?: string;
+  workspace?: string;
 }
 
 export async function checkCommand(options: CheckOptions) {
   console.log('\x1b[32m=== AI Skills Hub Status Check ===\x1b[0m\n');
 
-  const os = detectOS();
-  const customToolsMap = getAIToolsMap();
+  let agents: AgentAdapter[];
+  try {
+    agents = selectAgents(options);
+  } catch (error) {
+    console.error('\x1b[31mError:', error instanceof Error ? error.message : String(error), '\x1b[0m');
+    process.exit(1);
+  }
 
-  // 1. Check installed AI tools (CLI-based agents)
+  // 1. Check installed AI tools
   console.log('\x1b[33m[1] Installed AI Tools\x1b[0m');
-  const installedTools: Array<{ key: string; config: AgentConfig }> = [];
-
-  // Iterate through AGENT_CONFIG to check all agents
-  for (const [agentKey, agentConfig] of Object.entries(AGENT_CONFIG)) {
-    let isInstalled = false;
-
-    if (agentConfig.requiresCli && agentConfig.cliTool) {
-      // Check CLI tool
-      isInstalled = checkTool(agentConfig.cliTool);
-    } else {
-      // For IDE-based agents or agents without CLI, use custom check
-      const customTool = customToolsMap.get(agentKey);
-      if (customTool) {
-        isInstalled = customTool.checkInstalled();
-      }
-    }
+  const installedTools: AgentAdapter[] = [];
 
-    if (isInstalled) {
-      installedTools.push({ key: agentKey, config: agentConfig });
-      console.log(`\x1b[32m✓ ${agentConfig.name}\x1b[0m`);
-      if (options.verbose && agentConfig.cliTool) {
+  for (const adapter of agents) {
+    if (adapter.detect()) {
+      installedTools.push(adapter);
+      console.log(`\x1b[32m✓ ${adapter.name}\x1b[0m`);
+      if (options.verbose && adapter.cliTool) {
         try {
           // Try to get version information
-          const version = getToolVersion(agentConfig.cliTool);
+          const version = getToolVersion(adapter.cliTool);
           if (version) {
             console.log(`   Version: ${version}`);
           }
@@ -129,8 +49,8 @@ export async function checkCommand(options: CheckOptions) {
         }
       }
     } else {
-      const statusText = agentConfig.requiresCli ? '(not installed)' : '(IDE-based, no CLI check)';
-      console.log(`\x1b[33m○ ${agentConfig.name} ${statusText}\x1b[0m`);
+      const statusText = adapter.cliTool ? '(not installed)' : '(not detected)';
+      console.log(`\x1b[33m○ ${adapter.name} ${statusText}\x1b[0m`);
     }
   }
 
@@ -143,17 +63,19 @@ export async function checkCommand(options: CheckOptions) {
   const configuredTools: string[] = [];
   const notConfiguredTools: string[] = [];
 
-  for (const { key: agentKey, config: agentConfig } of installedTools) {
-    const customTool = customToolsMap.get(agentKey);
-    const configPath = customTool ? customTool.getConfigPath() : null;
+  for (const adapter of installedTools) {
+    const configPath = adapter.configPath();
 
     if (!configPath || !existsSync(configPath)) {
       // Config file doesn't exist
-      notConfiguredTools.push(agentConfig.name);
-      const reason = agentConfig.requiresCli && agentConfig.cliTool
-        ? '(installed but MCP not configured)'
-        : '(config file does not exist)';
-      console.log(`\x1b[33m○ ${agentConfig.name} ${reason}\x1b[0m`);
+      notConfiguredTools.push(adapter.name);
+      const legacy = legacyLocation(adapter);
+      const reason = legacy
+        ? `(configured in ${legacy}, run "skillshub sync" to migrate)`
+        : adapter.cliTool
+          ? '(installed but MCP not configured)'
+          : '(config file does not exist)';
+      console.log(`\x1b[33m○ ${adapter.name} ${reason}\x1b[0m`);
       if (options.verbose) {
         console.log(`   Config file: ${configPath || 'No config file path'}`);
       }
@@ -163,141 +85,148 @@ export async function checkCommand(options: CheckOptions) {
     // Config file exists, check MCP configuration
     try {
       const content = readFileSync(configPath, 'utf-8');
-      let hasMcpConfig = false;
-      
-      // Special handling for TOML format (Codex)
-      if (agentKey === 'codex' && configPath.endsWith('.toml')) {
-        // Check if TOML file contains [mcp_servers.ai-skills-hub] section
-        hasMcpConfig = checkTomlMcpConfig(content);
-        
-        if (hasMcpConfig) {
-          configuredTools.push(agentConfig.name);
-          console.log(`\x1b[32m✓ ${agentConfig.name}\x1b[0m`);
-          if (options.verbose) {
-            console.log(`   Config file: ${configPath}`);
-            const mcpConfig = parseTomlMcpConfig(content);
-            if (mcpConfig?.command) {
-              console.log(`   Command: ${mcpConfig.command} ${mcpConfig.args?.join(' ') || ''}`);
-            }
-          }
-        } else {
-          notConfiguredTools.push(agentConfig.name);
-          console.log(`\x1b[33m○ ${agentConfig.name} (installed but MCP not configured)\x1b[0m`);
-          if (options.verbose) {
-            console.log(`   Config file: ${configPath}`);
-          }
-        }
+      const mcpConfig = adapter.read(content);
+      const problems = mcpConfig ? adapter.verify(content) : [];
+
+      if (mcpConfig && problems.length === 0) {
+        configuredTools.push(adapter.name);
+        console.log(`\x1b[32m✓ ${adapter.name}\x1b[0m`);
       } else {
-        // JSON format handling
-        const json = JSON.parse(content);
-        
-        // VS Code uses 'mcp.servers' format, other tools use 'mcpServers'
-        hasMcpConfig = agentKey === 'vscode'
-          ? (json['mcp.servers'] && json['mcp.servers']['ai-skills-hub'])
-          : (json.mcpServers && json.mcpServers['ai-skills-hub']);
-        
-        if (hasMcpConfig) {
-          configuredTools.push(agentConfig.name);
-          console.log(`\x1b[32m✓ ${agentConfig.name}\x1b[0m`);
-          if (options.verbose) {
-            console.log(`   Config file: ${configPath}`);
-            const mcpConfig = agentKey === 'vscode'
-              ? json['mcp.servers']['ai-skills-hub']
-              : json.mcpServers['ai-skills-hub'];
-            if (mcpConfig.command) {
-              console.log(`   Command: ${mcpConfig.command} ${mcpConfig.args?.join(' ') || ''}`);
-            }
-          }
-        } else {
-          notConfiguredTools.push(agentConfig.name);
-          console.log(`\x1b[33m○ ${agentConfig.name} (installed but MCP not configured)\x1b[0m`);
-          if (options.verbose) {
-            console.log(`   Config file: ${configPath}`);
-          }
+        notConfiguredTools.push(adapter.name);
+        const legacy = mcpConfig ? null : legacyLocation(adapter);
+        const reason = mcpConfig
+          ? problems.join(', ')
+          : legacy ? `configured in ${legacy}, run "skillshub sync" to migrate` : 'installed but MCP not configured';
+        console.log(`\x1b[33m○ ${adapter.name} (${reason})\x1b[0m`);
+      }
+      if (options.verbose) {
+        console.log(`   Config file: ${configPath}`);
+        if (mcpConfig?.command) {
+          console.log(`   Command: ${mcpConfig.command} ${mcpConfig.args?.join(' ') || ''}`);
         }
       }
     } catch {
-      notConfiguredTools.push(agentConfig.name);
-      console.log(`\x1b[33m○ ${agentConfig.name} (config file format error)\x1b[0m`);
+      notConfiguredTools.push(adapter.name);
+      console.log(`\x1b[33m○ ${adapter.name} (config file format error)\x1b[0m`);
       if (options.verbose) {
         console.log(`   Config file: ${configPath}`);
       }
     }
   }
 
+  // 3. Check skill roots and shadowed skills
+  console.log('\n\x1b[33m[3] Skill Roots (highest precedence first)\x1b[0m');
+  const roots = await getSkillRoots();
+  const locations = await scanSkillLocations();
+
+  for (const root of roots) {
+    if (!existsSync(root.dir)) {
+      console.log(`\x1b[33m○ ${formatSkillRoot(root)} (not found)\x1b[0m`);
+      continue;
+    }
+    const count = locations.filter(location => location.root.dir === root.dir).length;
+    console.log(`\x1b[32m✓ ${formatSkillRoot(root)}\x1b[0m`);
+    console.log(`   Skills: ${count}`);
+  }
+
+  const shadowedSkills = locations.filter(location => location.shadowed.length > 0);
+  if (shadowedSkills.length > 0) {
+    console.log('\n\x1b[33mShadowed skills:\x1b[0m');
+    for (const location of shadowedSkills) {
+      console.log(`   ${location.path} from ${location.root.kind} shadows ${location.shadowed.map(root => root.kind).join(', ')}`);
+      if (options.verbose) {
+        console.log(`      Loaded: ${location.absPath}`);
+        for (const root of location.shadowed) {
+          console.log(`      Shadowed: ${join(root.dir, location.path)}`);
+        }
+      }
+    }
+  }
+
+  // Skills whose names collide get disambiguated tool names
+  const namingScheme = await getToolNamingScheme();
+  const assignments = await assignSkillToolNames(locations);
+  const conflicting = locations.filter(location => assignments.get(location.path)!.conflicts.length > 0);
+  if (conflicting.length > 0) {
+    console.log(`\n\x1b[33mTool name conflicts (naming: ${namingScheme}):\x1b[0m`);
+    for (const location of conflicting) {
+      console.log(`   ${location.path} -> ${assignments.get(location.path)!.toolName}`);
+    }
+  }
+
+  // 4. Compare skills installed with "add" against the lockfile and their sources
+  console.log('\n\x1b[33m[4] Installed Skills (skills.lock.json)\x1b[0m');
+  let lockStatuses: SkillUpdateStatus[] = [];
+  try {
+    const lockfile = await readLockfile();
+    if (Object.keys(lockfile.skills).length === 0) {
+      console.log('No skills installed with "skillshub add"');
+    } else {
+      lockStatuses = await checkSkillUpdates(lockfile);
+    }
+  } catch (error) {
+    console.log(`\x1b[31m✗ ${error instanceof Error ? error.message : String(error)}\x1b[0m`);
+  }
+
+  for (const status of lockStatuses) {
+    const problems = [
+      status.installed === null && 'missing',
+      status.modified && 'local edits',
+      status.outdated && 'outdated',
+      status.error && `unable to check: ${status.error}`,
+    ].filter(Boolean);
+
+    if (problems.length === 0) {
+      console.log(`\x1b[32m✓ ${status.name}\x1b[0m`);
+    } else {
+      console.log(`\x1b[33m○ ${status.name} (${problems.join(', ')})\x1b[0m`);
+    }
+    if (options.verbose) {
+      console.log(`   Source: ${status.entry.source}${status.entry.path ? ` (${status.entry.path})` : ''}`);
+      if (status.entry.commit) {
+        console.log(`   Commit: ${status.entry.commit}${status.outdated && status.upstreamSource?.commit ? ` -> ${status.upstreamSource.commit}` : ''}`);
+      }
+    }
+  }
+  if (options.verbose && lockStatuses.length > 0) {
+    console.log(`   Lockfile: ${SKILLS_LOCK_FILE}`);
+  }
+
   // Summary
   console.log('\n\x1b[36m=== Check Summary ===\x1b[0m');
-  const totalAgents = Object.keys(AGENT_CONFIG).length;
+  const totalAgents = agents.length;
   console.log(`Installed tools: ${installedTools.length}/${totalAgents}`);
   console.log(`Configured MCP: ${configuredTools.length}/${installedTools.length}`);
+  console.log(`Skills: ${locations.length} (${shadowedSkills.length} shadowing another root, ${conflicting.length} with conflicting names)`);
+  const outdated = lockStatuses.filter(status => status.outdated).length;
+  const drifted = lockStatuses.filter(status => status.modified || status.installed === null).length;
+  console.log(`Installed with add: ${lockStatuses.length} (${outdated} outdated, ${drifted} drifted from the lockfile)`);
 
   if (notConfiguredTools.length > 0) {
     console.log('\n\x1b[33mTip: Run "skillshub sync" to configure unconfigured AI tools\x1b[0m');
   }
 
+  if (outdated > 0) {
+    console.log('\n\x1b[33mTip: Run "skillshub update" to update outdated skills\x1b[0m');
+  }
+
   if (installedTools.length === 0) {
     console.log('\n\x1b[33mTip: No installed AI tools detected, please install required tools first\x1b[0m');
   }
 }
 
-function detectOS(): string {
-  const platform = process.platform;
-  if (platform === 'darwin') return 'macos';
-  if (platform === 'linux') return 'linux';
-  if (platform === 'win32') return 'windows';
-  return 'unknown';
-}
-
 /**
- * Get configuration file path for a tool based on OS
+ * The legacy config file that still has the ai-skills-hub entry, null when there is none
  */
-function getConfigPath(os: string, tool: string): string | null {
-  const homeDir = process.env.HOME || process.env.USERPROFILE || '';
-  const appData = process.env.APPDATA || '';
-  
-  const pathMap: Record<string, Record<string, string>> = {
-    macos: {
-      cursor: `${homeDir}/.cursor/mcp.json`,
-      codex: `${homeDir}/.codex/config.toml`,
-      copilot: `${homeDir}/.config/github-copilot/config.json`,
-      gemini: `${homeDir}/.config/gemini/config.json`,
-      'claude-code': `${homeDir}/.claude.json`,
-      vscode: `${homeDir}/Library/Application Support/Code/User/settings.json`,
-      claude: `${homeDir}/.claude.json`
-    },
-    linux: {
-      cursor: `${homeDir}/.config/cursor/mcp.json`,
-      codex: `${homeDir}/.codex/config.toml`,
-      copilot: `${homeDir}/.config/github-copilot/config.json`,
-      gemini: `${homeDir}/.config/gemini/config.json`,
-      'claude-code': `${homeDir}/.claude.json`,
-      vscode: `${homeDir}/.config/Code/User/settings.json`,
-      claude: `${homeDir}/.claude.json`
-    },
-    windows: {
-      cursor: `${appData}/Cursor/User/mcp.json`,
-      codex: `${appData}/codex/config.toml`,
-      copilot: `${appData}/github-copilot/config.json`,
-      gemini: `${appData}/gemini/config.json`,
-      'claude-code': `${homeDir}/.claude.json`,
-      vscode: `${appData}/Code/User/settings.json`,
-      claude: `${homeDir}/.claude.json`
-    }
-  };
-
-  return pathMap[os]?.[tool] || null;
-}
-
-function checkCommandInstalled(command: string): boolean {
+function legacyLocation(adapter: AgentAdapter): string | null {
+  const legacyPath = adapter.legacy?.configPath();
+  if (!adapter.legacy || !legacyPath || !existsSync(legacyPath)) {
+    return null;
+  }
   try {
-    if (process.platform === 'win32') {
-      execSync(`where ${command}`, { stdio: 'ignore' });
-    } else {
-      execSync(`which ${command}`, { stdio: 'ignore' });
-    }
-    return true;
+    return adapter.legacy.read(readFileSync(legacyPath, 'utf-8')) ? legacyPath : null;
   } catch {
-    return false;
+    return null;
   }
 }
 
@@ -319,247 +248,3 @@ function getToolVersion(cliTool: string): string | null {
   }
   return null;
 }
-
-function checkCursorInstalled(): boolean {
-  const platform = process.platform;
-  
-  if (platform === 'darwin') {
-    // macOS: Check for Cursor.app in common locations
-    const homeDir = process.env.HOME || '';
-    const paths = [
-      '/Applications/Cursor.app',
-      `${homeDir}/Applications/Cursor.app`
-    ];
-    return paths.some(path => existsSync(path));
-  } else if (platform === 'linux') {
-    // Linux: Check if cursor command exists or check common AppImage locations
-    if (checkCommandInstalled('cursor')) {
-      return true;
-    }
-    const homeDir = process.env.HOME || '';
-    
-    // Try to find AppImage files in ~/Applications
-    try {
-      const appsDir = join(homeDir, 'Applications');
-      if (existsSync(appsDir)) {
-        const files = readdirSync(appsDir);
-        if (files.some((f: string) => f.toLowerCase().includes('cursor') && f.endsWith('.AppImage'))) {
-          return true;
-        }
-      }
-    } catch {
-      // Ignore errors
-    }
-    
-    // Check other common paths
-    const commonPaths = [
-      join(homeDir, '.local', 'bin', 'cursor'),
-      '/usr/bin/cursor',
-      '/usr/local/bin/cursor',
-      '/opt/cursor/cursor'
-    ];
-    
-    return commonPaths.some(path => {
-      try {
-        return existsSync(path);
-      } catch {
-        return false;
-      }
-    });
-  } else if (platform === 'win32') {
-    // Windows: Check common installation paths
-    const localAppData = process.env.LOCALAPPDATA || '';
-    const programFiles = process.env.ProgramFiles || '';
-    const programFilesX86 = process.env['ProgramFiles(x86)'] || '';
-    const appData = process.env.APPDATA || '';
-    
-    const paths = [
-      join(localAppData, 'Programs', 'cursor', 'Cursor.exe'),
-      join(programFiles, 'Cursor', 'Cursor.exe'),
-      join(programFilesX86, 'Cursor', 'Cursor.exe'),
-      join(appData, 'Cursor', 'Cursor.exe')
-    ];
-    
-    // Also check if cursor command exists in PATH
-    if (checkCommandInstalled('cursor')) {
-      return true;
-    }
-    
-    return paths.some(path => existsSync(path));
-  }
-  
-  return false;
-}
-
-function checkVSCodeInstalled(): boolean {
-  const platform = process.platform;
-  
-  if (platform === 'darwin') {
-    // macOS: Check for Visual Studio Code.app in common locations
-    const homeDir = process.env.HOME || '';
-    const paths = [
-      '/Applications/Visual Studio Code.app',
-      `${homeDir}/Applications/Visual Studio Code.app`
-    ];
-    return paths.some(path => existsSync(path));
-  } else if (platform === 'linux') {
-    // Linux: Check if code command exists
-    if (checkCommandInstalled('code')) {
-      return true;
-    }
-    const homeDir = process.env.HOME || '';
-    
-    // Check common installation paths
-    const commonPaths = [
-      join(homeDir, '.local', 'bin', 'code'),
-      '/usr/bin/code',
-      '/usr/local/bin/code',
-      '/opt/visual-studio-code/code'
-    ];
-    
-    return commonPaths.some(path => {
-      try {
-        return existsSync(path);
-      } catch {
-        return false;
-      }
-    });
-  } else if (platform === 'win32') {
-    // Windows: Check common installation paths
-    const localAppData = process.env.LOCALAPPDATA || '';
-    const programFiles = process.env.ProgramFiles || '';
-    const programFilesX86 = process.env['ProgramFiles(x86)'] || '';
-    
-    const paths = [
-      join(localAppData, 'Programs', 'Microsoft VS Code', 'Code.exe'),
-      join(programFiles, 'Microsoft VS Code', 'Code.exe'),
-      join(programFilesX86, 'Microsoft VS Code', 'Code.exe')
-    ];
-    
-    // Also check if code command exists in PATH
-    if (checkCommandInstalled('code')) {
-      return true;
-    }
-    
-    return paths.some(path => existsSync(path));
-  }
-  
-  return false;
-}
-
-/**
- * Get custom tool definitions for agents that need special installation checks
- * Returns a Map for O(1) lookup performance
- */
-function getAIToolsMap(): Map<string, AITool> {
-  const os = detectOS();
-  
-  return new Map([
-    [
-      'cursor',
-      {
-        name: 'cursor',
-        checkInstalled: checkCursorInstalled,
-        getConfigPath: () => getConfigPath(os, 'cursor')
-      }
-    ],
-    [
-      'vscode',
-      {
-        name: 'vscode',
-        checkInstalled: checkVSCodeInstalled,
-        getConfigPath: () => getConfigPath(os, 'vscode')
-      }
-    ],
-    // CLI-based tools can use standard checkCommandInstalled, but we still need config paths
-    [
-      'codex',
-      {
-        name: 'codex',
-        checkInstalled: () => checkCommandInstalled('codex'),
-        getConfigPath: () => getConfigPath(os, 'codex')
-      }
-    ],
-    [
-      'copilot',
-      {
-        name: 'copilot',
-        checkInstalled: () => checkCommandInstalled('copilot'),
-        getConfigPath: () => getConfigPath(os, 'copilot')
-      }
-    ],
-    [
-      'gemini',
-      {
-        name: 'gemini',
-        checkInstalled: () => checkCommandInstalled('gemini'),
-        getConfigPath: () => getConfigPath(os, 'gemini')
-      }
-    ],
-    [
-      'claude-code',
-      {
-        name: 'claude-code',
-        checkInstalled: () => checkCommandInstalled('claude') || checkCommandInstalled('claude-code'),
-        getConfigPath: () => getConfigPath(os, 'claude-code')
-      }
-    ],
-    [
-      'claude',
-      {
-        name: 'claude',
-        checkInstalled: () => checkCommandInstalled('claude'),
-        getConfigPath: () => getConfigPath(os, 'claude')
-      }
-    ]
-  ]);
-}
-
-/**
- * Check if TOML content contains [mcp_servers.ai-skills-hub] configuration
- */
-function checkTomlMcpConfig(content: string): boolean {
-  // Look for [mcp_servers.ai-skills-hub] section in TOML
-  const sectionRegex = /^\[mcp_servers\.ai-skills-hub\]/m;
-  return sectionRegex.test(content);
-}
-
-/**
- * Parse TOML MCP configuration to extract command details
- * Returns null if configuration not found or malformed
- */
-function parseTomlMcpConfig(content: string): { command?: string; args?: string[] } | null {
-  try {
-    // Find the [mcp_servers.ai-skills-hub] section
-    const sectionRegex = /^\[mcp_servers\.ai-skills-hub\]([\s\S]*?)(?=^\[|$)/m;
-    const match = content.match(sectionRegex);
-    
-    if (!match) {
-      return null;
-    }
-    
-    const section = match[1];
-    const config: { command?: string; args?: string[] } = {};
-    
-    // Extract command
-    const commandMatch = section.match(/^command\s*=\s*"([^"]+)"/m);
-    if (commandMatch) {
-      config.command = commandMatch[1];
-    }
-    
-    // Extract args array
-    const argsMatch = section.match(/^args\s*=\s*\[([\s\S]*?)\]/m);
-    if (argsMatch) {
-      const argsContent = argsMatch[1];
-      // Parse array of quoted strings
-      const argMatches = argsContent.match(/"([^"]+)"/g);
-      if (argMatches) {
-        config.args = argMatches.map(arg => arg.replace(/"/g, ''));
-      }
-    }
-    
-    return config;
-  } catch {
-    return null;
-  }
-}
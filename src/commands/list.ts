@@ -1,18 +1,11 @@
 import { statSync } from 'fs';
-import { join } from 'path';
-import { fileURLToPath } from 'url';
-import { dirname } from 'path';
 import {
-  scanSkillsDirectory,
-  readSkillFile,
-  getSkillDescription,
-  filenameToToolName,
+  scanSkillLocations,
+  loadSkill,
+  assignSkillToolNames,
+  formatSkillRoot,
 } from '../utils.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-const PROJECT_DIR = join(__dirname, '../..');
-
 interface ListOptions {
   verbose?: boolean;
   tips?: boolean;
@@ -22,37 +15,66 @@ export async function listCommand(options: ListOptions) {
   console.log('\x1b[32m=== AI Skills Hub - Available Skills ===\x1b[0m\n');
 
   try {
-    const skillFiles = await scanSkillsDirectory();
+    const locations = await scanSkillLocations();
 
-    if (skillFiles.length === 0) {
+    if (locations.length === 0) {
       console.log('\x1b[33mNo skill files found\x1b[0m');
       console.log('Please create SKILL.md files in skills/ subdirectories (e.g.: skills/go-testing/SKILL.md)');
       return;
     }
 
-    // Sort by filename
-    skillFiles.sort();
+    const assignments = await assignSkillToolNames(locations);
 
-    console.log(`Found ${skillFiles.length} skill${skillFiles.length > 1 ? 's' : ''}:\n`);
+    console.log(`Found ${locations.length} skill${locations.length > 1 ? 's' : ''}:\n`);
 
-    for (let i = 0; i < skillFiles.length; i++) {
-      const filename = skillFiles[i];
-      const toolName = filenameToToolName(filename);
+    for (let i = 0; i < locations.length; i++) {
+      const location = locations[i];
+      const filename = location.path;
+      const { toolName, conflicts } = assignments.get(filename)!;
 
       try {
-        // Read file content to get description
-        const content = await readSkillFile(filename);
-        const description = getSkillDescription(content, filename);
+        // Read skill manifest to get description
+        const skill = await loadSkill(filename);
+        const { manifest, content } = skill;
 
         // Display skill information
         console.log(`\x1b[36m${i + 1}. ${filename}\x1b[0m`);
         console.log(`   \x1b[33mTool name:\x1b[0m ${toolName}`);
-        console.log(`   \x1b[33mDescription:\x1b[0m ${description}`);
+        for (const other of conflicts) {
+          console.log(`   \x1b[31mName conflict:\x1b[0m ${other} (tool name disambiguated)`);
+        }
+        console.log(`   \x1b[33mDescription:\x1b[0m ${skill.description}`);
+        console.log(`   \x1b[33mRoot:\x1b[0m ${formatSkillRoot(location.root)}`);
+        for (const shadowedRoot of location.shadowed) {
+          console.log(`   \x1b[33mShadows:\x1b[0m ${formatSkillRoot(shadowedRoot)}`);
+        }
+        if (manifest.version) {
+          console.log(`   \x1b[33mVersion:\x1b[0m ${manifest.version}`);
+        }
+        if (manifest.tags.length > 0) {
+          console.log(`   \x1b[33mTags:\x1b[0m ${manifest.tags.join(', ')}`);
+        }
+        if (options.verbose && manifest.when_to_use) {
+          console.log(`   \x1b[33mWhen to use:\x1b[0m ${manifest.when_to_use}`);
+        }
+        if (options.verbose && manifest.owners.length > 0) {
+          console.log(`   \x1b[33mOwners:\x1b[0m ${manifest.owners.join(', ')}`);
+        }
+        if (options.verbose && manifest.execution) {
+          const policy = Object.entries(manifest.execution).map(([key, value]) => `${key}=${Array.isArray(value) ? value.join(',') : value}`);
+          console.log(`   \x1b[33mExecution policy:\x1b[0m ${policy.join(' ')}`);
+        }
+        if (manifest.arguments.length > 0) {
+          const args = manifest.arguments.map(arg => `${arg.name} (${arg.type}${arg.required ? ', required' : ''})`);
+          console.log(`   \x1b[33mArguments:\x1b[0m ${args.join(', ')}`);
+        }
+        for (const issue of skill.errors) {
+          console.log(`   \x1b[31mFrontmatter error:\x1b[0m ${issue}`);
+        }
 
         if (options.verbose) {
           // Display detailed information
-          const filePath = join(PROJECT_DIR, 'skills', filename);
-          const stats = statSync(filePath);
+          const stats = statSync(location.absPath);
           const size = (stats.size / 1024).toFixed(2);
           const lines = content.split('\n').length;
           const lastModified = stats.mtime.toLocaleString('en-US');
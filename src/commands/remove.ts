@@ -0,0 +1,95 @@
+import { existsSync } from 'fs';
+import { writeFile } from 'fs/promises';
+import { join, dirname } from 'path';
+import {
+  USER_SKILLS_DIR,
+  findSkillLocation,
+  scanSkillLocations,
+  formatSkillRoot,
+} from '../utils.js';
+import { createTrashDir, trashSkill } from '../install.js';
+import { removeLockEntries } from '../lockfile.js';
+import { confirm, isInteractive } from '../prompt.js';
+
+interface RemoveOptions {
+  yes?: boolean;
+}
+
+/**
+ * Resolve a command argument to a skill directory inside the user skills directory
+ * Skills from project or team roots are never removed, they belong to other checkouts
+ */
+async function resolveUserSkill(name: string): Promise<string> {
+  const location = await findSkillLocation(name);
+  if (!location) {
+    throw new Error(`Skill not found: ${name}`);
+  }
+
+  const skillDir = dirname(location.path);
+  if (location.root.kind !== 'user' && !existsSync(join(USER_SKILLS_DIR, location.path))) {
+    throw new Error(`Skill "${name}" is loaded from ${formatSkillRoot(location.root)}, only skills in ${USER_SKILLS_DIR} can be removed`);
+  }
+  return skillDir;
+}
+
+export async function removeCommand(names: string[], options: RemoveOptions) {
+  console.log('\x1b[32m=== AI Skills Hub - Remove Skills ===\x1b[0m\n');
+
+  try {
+    const resolved: string[] = [];
+    for (const name of names) {
+      resolved.push(await resolveUserSkill(name));
+    }
+
+    // A skill inside another removed skill goes to the trash with it
+    const unique = Array.from(new Set(resolved)).sort();
+    const skillDirs = unique.filter(dir => !unique.some(other => other !== dir && dir.startsWith(`${other}/`)));
+
+    const userSkills = (await scanSkillLocations())
+      .filter(location => location.root.kind === 'user' || location.shadowed.some(root => root.kind === 'user'))
+      .map(location => dirname(location.path));
+    console.log('Skills to remove:');
+    for (const skillDir of skillDirs) {
+      console.log(`  ${skillDir} (${join(USER_SKILLS_DIR, skillDir)})`);
+      const nested = userSkills.filter(other => other.startsWith(`${skillDir}/`));
+      if (nested.length > 0) {
+        console.log(`\x1b[33m    Also contains: ${nested.join(', ')}\x1b[0m`);
+      }
+    }
+
+    if (!options.yes) {
+      if (!isInteractive()) {
+        throw new Error('Refusing to remove skills without confirmation, use --yes');
+      }
+      if (!(await confirm(`\nMove ${skillDirs.length} skill(s) to the trash?`))) {
+        console.log('Cancelled, nothing was removed');
+        return;
+      }
+    }
+
+    const trashDir = await createTrashDir();
+    const removed: string[] = [];
+    try {
+      for (const skillDir of skillDirs) {
+        await trashSkill(skillDir, trashDir);
+        removed.push(skillDir);
+        console.log(`\x1b[32m✓ Removed ${skillDir}\x1b[0m`);
+      }
+    } finally {
+      // Even after a failure, skills already in the trash must leave the lockfile
+      // The removed entries are kept with the files, so a restored skill can be tracked again
+      const removedEntries = await removeLockEntries(removed);
+      if (Object.keys(removedEntries).length > 0) {
+        await writeFile(join(trashDir, 'skills.lock.json'), JSON.stringify({ version: 1, skills: removedEntries }, null, 2) + '\n', 'utf-8');
+      }
+    }
+
+    console.log(`\nMoved to trash: ${trashDir}`);
+    console.log(`To restore, move the skill directory back into ${USER_SKILLS_DIR}`);
+    console.log(`\nTip: Run "skillshub sync" to update MCP configuration`);
+
+  } catch (error) {
+    console.error('\n\x1b[31mError:', error instanceof Error ? error.message : String(error), '\x1b[0m');
+    process.exit(1);
+  }
+}
@@ -0,0 +1,101 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { backupConfig } from './sync.js';
+import { listBackups, selectBackupsAt, readBackup, BackupEntry, BACKUP_MANIFEST_FILE } from '../backups.js';
+import { unifiedDiff, colorizeDiff } from '../diff.js';
+import { confirm, isInteractive } from '../prompt.js';
+
+interface RestoreOptions {
+  agent?: string;
+  at?: string;
+  yes?: boolean;
+}
+
+/**
+ * Print the backups grouped by config file, newest first
+ */
+function printBackups(backups: BackupEntry[]): void {
+  const byConfig = new Map<string, BackupEntry[]>();
+  for (const backup of backups) {
+    byConfig.set(backup.configPath, [...(byConfig.get(backup.configPath) ?? []), backup]);
+  }
+
+  for (const [configPath, entries] of byConfig) {
+    console.log(`\x1b[36m${entries[0].agent}\x1b[0m ${configPath}`);
+    for (const entry of entries) {
+      console.log(`  ${entry.createdAt}`);
+    }
+  }
+}
+
+export async function restoreCommand(options: RestoreOptions) {
+  console.log('\x1b[32m=== AI Skills Hub - Restore Config ===\x1b[0m\n');
+
+  try {
+    const backups = await listBackups(options.agent);
+    if (backups.length === 0) {
+      console.log(options.agent ? `No backups of ${options.agent} config` : 'No config backups yet');
+      return;
+    }
+
+    if (!options.at) {
+      printBackups(backups);
+      console.log(`\nManifest: ${BACKUP_MANIFEST_FILE}`);
+      console.log('Tip: Run "skillshub restore --agent <agent> --at <timestamp>" to roll a config back');
+      return;
+    }
+
+    const at = new Date(options.at);
+    if (isNaN(at.getTime())) {
+      throw new Error(`Invalid timestamp: ${options.at} (use a time listed by "skillshub restore")`);
+    }
+    const selected = selectBackupsAt(backups, at);
+    if (selected.length === 0) {
+      throw new Error(`No backup taken at or before ${at.toISOString()}`);
+    }
+
+    if (!options.yes && !isInteractive()) {
+      throw new Error('Refusing to restore without confirmation, use --yes');
+    }
+
+    let restored = 0;
+    for (const backup of selected) {
+      console.log(`\n\x1b[33m${backup.agent}\x1b[0m ${backup.configPath}`);
+      console.log(`Backup from ${backup.createdAt}`);
+
+      const content = await readBackup(backup);
+      const exists = existsSync(backup.configPath);
+      const current = exists ? readFileSync(backup.configPath, 'utf-8') : '';
+      if (exists && current === content) {
+        console.log('○ Already matches the backup');
+        continue;
+      }
+
+      process.stdout.write(colorizeDiff(unifiedDiff(
+        current,
+        content,
+        exists ? backup.configPath : '/dev/null',
+        `${backup.configPath} (${backup.createdAt})`
+      )));
+      if (!options.yes && !(await confirm(`Restore ${backup.configPath}?`))) {
+        console.log('Skipped');
+        continue;
+      }
+
+      // The current config is backed up too, so a restore can be rolled back the same way
+      await backupConfig(backup.agent, backup.configPath);
+      mkdirSync(dirname(backup.configPath), { recursive: true });
+      writeFileSync(backup.configPath, content, 'utf-8');
+      restored++;
+      console.log(`\x1b[32m✓ Restored ${backup.configPath}\x1b[0m`);
+    }
+
+    console.log(`\n\x1b[32mRestore complete, ${restored} config file(s) restored\x1b[0m`);
+    if (restored > 0) {
+      console.log('\x1b[33mTip: Restart the AI tools to load the restored configuration\x1b[0m');
+    }
+  } catch (error) {
+    console.error('\n\x1b[31mError:', error instanceof Error ? error.message : String(error), '\x1b[0m');
+    process.exit(1);
+  }
+}
@@ -0,0 +1,62 @@
+import { SkillsHubServer } from '../server.js';
+import { startHttpServer } from '../http.js';
+import { readUserSettings } from '../utils.js';
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 8787;
+
+interface ServeOptions {
+  http?: boolean;
+  port?: string;
+  host?: string;
+}
+
+/**
+ * Parse a port number (digits only, 1-65535), `source` names the option or setting in the error
+ */
+function parsePort(value: string, source: string): number {
+  const port = /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid ${source}: "${value}", expected a number from 1 to 65535`);
+  }
+  return port;
+}
+
+export async function serveCommand(options: ServeOptions) {
+  // Default: stdio transport, same as running dist/index.js directly
+  if (!options.http) {
+    const server = new SkillsHubServer();
+    await server.run();
+    return;
+  }
+
+  try {
+    const settings = await readUserSettings();
+    const httpSettings = settings.http || {};
+
+    const host = options.host || httpSettings.host || DEFAULT_HOST;
+    const port = options.port !== undefined
+      ? parsePort(options.port, '--port')
+      : httpSettings.port !== undefined ? parsePort(String(httpSettings.port), 'http.port in settings.json') : DEFAULT_PORT;
+
+    const authToken = httpSettings.authToken;
+    const isLoopback = host === '127.0.0.1' || host === 'localhost' || host === '::1';
+    const idleTimeout = httpSettings.sessionIdleTimeoutSec;
+    const sessionIdleTimeoutMs = typeof idleTimeout === 'number' && idleTimeout > 0 ? idleTimeout * 1000 : undefined;
+
+    await startHttpServer({ host, port, authToken, sessionIdleTimeoutMs });
+
+    console.log('\x1b[32m=== AI Skills Hub - HTTP Server ===\x1b[0m\n');
+    console.log(`Streamable HTTP endpoint: http://${host}:${port}/mcp`);
+    console.log(`SSE endpoint (legacy clients): http://${host}:${port}/sse`);
+    console.log(`Authentication: ${authToken ? 'bearer token (from settings)' : 'disabled'}`);
+    if (!authToken && !isLoopback) {
+      console.log('\n\x1b[33mWarning: Server is reachable from the network without authentication\x1b[0m');
+      console.log('Set "http.authToken" in ~/.ai-skills-hub/settings.json to require a bearer token');
+    }
+    console.log('\nPress Ctrl+C to stop');
+  } catch (error) {
+    console.error('\x1b[31mError:', error instanceof Error ? error.message : String(error), '\x1b[0m');
+    process.exit(1);
+  }
+}
@@ -1,7 +1,12 @@
 import { execSync } from 'child_process';
-import { existsSync, mkdirSync, readFileSync, writeFileSync, copyFileSync } from 'fs';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { unifiedDiff, colorizeDiff } from '../diff.js';
+import { confirm, isInteractive } from '../prompt.js';
+import { createConfigBackup, CONFIG_BACKUPS_DIR } from '../backups.js';
+import { readUserSettings } from '../utils.js';
+import { AgentAdapter, McpServerConfig, detectOS, selectAgents } from '../agents/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -19,11 +24,30 @@ const PROJECT_DIR = isNpmPackage() ? __dirname.replace(/\/dist\/commands$/, '').
 
 interface SyncOptions {
   force?: boolean;
+  dryRun?: boolean;
+  confirm?: boolean;
+  only?: string;
+  skip?: string;
+  workspace?: string;
 }
 
 export async function syncCommand(options: SyncOptions) {
   console.log('\x1b[32m=== AI Skills Hub Sync Script ===\x1b[0m');
   console.log(`Project directory: ${PROJECT_DIR}`);
+  if (options.dryRun) {
+    console.log('\x1b[36mDry run: showing the config changes, nothing will be written\x1b[0m');
+  } else if (options.confirm && !isInteractive()) {
+    console.error('\x1b[31mError: --confirm needs an interactive terminal (use --dry-run to preview the changes)\x1b[0m');
+    process.exit(1);
+  }
+
+  let agents: AgentAdapter[];
+  try {
+    agents = selectAgents(options);
+  } catch (error) {
+    console.error('\x1b[31mError:', error instanceof Error ? error.message : String(error), '\x1b[0m');
+    process.exit(1);
+  }
 
   const isNpmEnv = isNpmPackage();
   
@@ -32,19 +56,22 @@ export async function syncCommand(options: SyncOptions) {
   const aiSkillsHubDir = join(homeDir, '.ai-skills-hub');
   const skillsDir = join(aiSkillsHubDir, 'skills');
   
-  try {
-    if (!existsSync(aiSkillsHubDir)) {
-      mkdirSync(aiSkillsHubDir, { recursive: true });
-      console.log(`\x1b[32m✓ Created directory: ${aiSkillsHubDir}\x1b[0m`);
-    }
-    if (!existsSync(skillsDir)) {
-      mkdirSync(skillsDir, { recursive: true });
-      console.log(`\x1b[32m✓ Created skills directory: ${skillsDir}\x1b[0m`);
-    }
-  } catch (error) {
-    console.log('\x1b[33mWarning: Failed to create ai-skills-hub directory, continuing...\x1b[0m');
-    if (error instanceof Error) {
-      console.log(`\x1b[33mError: ${error.message}\x1b[0m`);
+  // Nothing is created in a dry run
+  if (!options.dryRun) {
+    try {
+      if (!existsSync(aiSkillsHubDir)) {
+        mkdirSync(aiSkillsHubDir, { recursive: true });
+        console.log(`\x1b[32m✓ Created directory: ${aiSkillsHubDir}\x1b[0m`);
+      }
+      if (!existsSync(skillsDir)) {
+        mkdirSync(skillsDir, { recursive: true });
+        console.log(`\x1b[32m✓ Created skills directory: ${skillsDir}\x1b[0m`);
+      }
+    } catch (error) {
+      console.log('\x1b[33mWarning: Failed to create ai-skills-hub directory, continuing...\x1b[0m');
+      if (error instanceof Error) {
+        console.log(`\x1b[33mError: ${error.message}\x1b[0m`);
+      }
     }
   }
   
@@ -52,7 +79,9 @@ export async function syncCommand(options: SyncOptions) {
     // 1. Git Pull (only execute in local development environment)
     if (!isNpmEnv) {
       console.log('\n\x1b[33m[1/4] Updating skills library...\x1b[0m');
-      if (existsSync(join(PROJECT_DIR, '.git'))) {
+      if (options.dryRun) {
+        console.log('Skipping git pull (dry run)');
+      } else if (existsSync(join(PROJECT_DIR, '.git'))) {
         try {
           execSync('git pull', { cwd: PROJECT_DIR, stdio: 'inherit' });
         } catch (error) {
@@ -69,15 +98,19 @@ export async function syncCommand(options: SyncOptions) {
     // 2. Install dependencies and compile (only execute in local development environment)
     if (!isNpmEnv) {
       console.log('\n\x1b[33m[2/4] Compiling TypeScript...\x1b[0m');
-      if (!existsSync(join(PROJECT_DIR, 'node_modules'))) {
-        console.log('Installing dependencies...');
-        execSync('npm install', { cwd: PROJECT_DIR, stdio: 'inherit' });
-      }
-      
-      if (options.force || !existsSync(join(PROJECT_DIR, 'dist'))) {
-        execSync('npm run build', { cwd: PROJECT_DIR, stdio: 'inherit' });
+      if (options.dryRun) {
+        console.log('Skipping compilation (dry run)');
       } else {
-        console.log('Skipping compilation (use --force to force recompilation)');
+        if (!existsSync(join(PROJECT_DIR, 'node_modules'))) {
+          console.log('Installing dependencies...');
+          execSync('npm install', { cwd: PROJECT_DIR, stdio: 'inherit' });
+        }
+
+        if (options.force || !existsSync(join(PROJECT_DIR, 'dist'))) {
+          execSync('npm run build', { cwd: PROJECT_DIR, stdio: 'inherit' });
+        } else {
+          console.log('Skipping compilation (use --force to force recompilation)');
+        }
       }
     } else {
       console.log('\n\x1b[33m[2/4] Using precompiled code...\x1b[0m');
@@ -105,27 +138,26 @@ export async function syncCommand(options: SyncOptions) {
     const stepNumber = isNpmEnv ? '[2/3]' : '[3/4]';
     console.log(`\n\x1b[33m${stepNumber} Configuring AI tools MCP settings...\x1b[0m`);
     
-    const mcpServerPath = join(PROJECT_DIR, 'dist', 'index.js');
-    const mcpConfig = {
-      mcpServers: {
-        'ai-skills-hub': {
-          command: 'node',
-          args: [mcpServerPath]
-        }
-      }
+    const { mcpServer } = await readUserSettings();
+    const server: McpServerConfig = {
+      command: 'node',
+      args: [join(PROJECT_DIR, 'dist', 'index.js')],
+      env: mcpServer?.env,
+      startupTimeoutSec: mcpServer?.startupTimeoutSec
     };
 
     // Configure each AI tool
-    await configureClaudeDesktop(os, mcpConfig);
-    await configureCursor(os, mcpConfig);
-    await configureVSCode(os, mcpConfig);
-    await configureCodex(os, mcpConfig);
-    await configureCopilot(os);
-    await configureGemini(os);
-    await configureClaudeCode(os, mcpConfig);
+    for (const adapter of agents) {
+      await configureAgent(adapter, server, options);
+    }
 
     // 5. Complete
     const finalStepNumber = isNpmEnv ? '[3/3]' : '[4/4]';
+    if (options.dryRun) {
+      console.log(`\n\x1b[32m${finalStepNumber} Dry run complete, no files were changed\x1b[0m`);
+      console.log('Run "skillshub sync" to apply these changes, or "skillshub sync --confirm" to approve each file');
+      return;
+    }
     console.log(`\n\x1b[32m${finalStepNumber} Sync complete!\x1b[0m`);
     if (!isNpmEnv) {
       console.log('\n\x1b[32m✓ Skills library updated');
@@ -142,290 +174,137 @@ export async function syncCommand(options: SyncOptions) {
   }
 }
 
-function detectOS(): string {
-  const platform = process.platform;
-  if (platform === 'darwin') return 'macos';
-  if (platform === 'linux') return 'linux';
-  if (platform === 'win32') return 'windows';
-  return 'unknown';
-}
-
-function getConfigPath(os: string, tool: string): string | null {
-  const homeDir = process.env.HOME || process.env.USERPROFILE || '';
-  
-  const paths: Record<string, Record<string, string>> = {
-    macos: {
-      'cursor': `${homeDir}/.cursor/mcp.json`,
-      'vscode': `${homeDir}/Library/Application Support/Code/User/settings.json`,
-      'codex': `${homeDir}/.codex/config.toml`,
-      'copilot': `${homeDir}/.config/github-copilot/config.json`,
-      'gemini': `${homeDir}/.config/gemini/config.json`,
-      'claude-code': `${homeDir}/.claude.json`
-    },
-    linux: {
-      'cursor': `${homeDir}/.config/cursor/mcp.json`,
-      'vscode': `${homeDir}/.config/Code/User/settings.json`,
-      'codex': `${homeDir}/.codex/config.toml`,
-      'copilot': `${homeDir}/.config/github-copilot/config.json`,
-      'gemini': `${homeDir}/.config/gemini/config.json`,
-      'claude-code': `${homeDir}/.claude.json`
-    },
-    windows: {
-      'cursor': `${process.env.APPDATA}/Cursor/User/mcp.json`,
-      'vscode': `${process.env.APPDATA}/Code/User/settings.json`,
-      'codex': `${process.env.APPDATA}/codex/config.toml`,
-      'copilot': `${process.env.APPDATA}/github-copilot/config.json`,
-      'gemini': `${process.env.APPDATA}/gemini/config.json`,
-      'claude-code': `${process.env.APPDATA}/.claude.json`
-    }
-  };
-
-  return paths[os]?.[tool] || null;
-}
-
-function backupConfig(configPath: string): void {
-  if (existsSync(configPath)) {
-    const backupPath = `${configPath}.backup.${Date.now()}`;
-    copyFileSync(configPath, backupPath);
-    console.log(`\x1b[32mBacked up: ${backupPath}\x1b[0m`);
+/**
+ * Back up a config file into ~/.ai-skills-hub/backups before it is changed
+ */
+export async function backupConfig(agent: string, configPath: string): Promise<void> {
+  const backup = await createConfigBackup(agent, configPath);
+  if (backup) {
+    console.log(`\x1b[32mBacked up: ${join(CONFIG_BACKUPS_DIR, backup.file)}\x1b[0m`);
   }
 }
 
-function updateJsonConfig(configPath: string, mcpConfig: any): void {
-  const configDir = dirname(configPath);
-  mkdirSync(configDir, { recursive: true });
-
-  backupConfig(configPath);
-
-  let existingConfig: any = {};
-  if (existsSync(configPath)) {
-    try {
-      const content = readFileSync(configPath, 'utf-8');
-      existingConfig = JSON.parse(content);
-    } catch (error) {
-      console.log(`\x1b[33mWarning: Unable to read existing config, will create new config\x1b[0m`);
-    }
+/**
+ * Read a config file, '' when it doesn't exist yet
+ * A file that exists but can't be read throws: writing a new config would replace the user's settings
+ */
+function readConfigContent(configPath: string): string {
+  if (!existsSync(configPath)) {
+    return '';
   }
-
-  // Merge configuration
-  const mergedConfig = {
-    ...existingConfig,
-    mcpServers: {
-      ...existingConfig.mcpServers,
-      ...mcpConfig.mcpServers
-    }
-  };
-
-  writeFileSync(configPath, JSON.stringify(mergedConfig, null, 2), 'utf-8');
-  console.log(`\x1b[32mUpdated: ${configPath}\x1b[0m`);
-}
-
-function updateVSCodeConfig(configPath: string, vscodeConfig: any): void {
-  const configDir = dirname(configPath);
-  mkdirSync(configDir, { recursive: true });
-
-  backupConfig(configPath);
-
-  let existingConfig: any = {};
-  if (existsSync(configPath)) {
-    try {
-      const content = readFileSync(configPath, 'utf-8');
-      existingConfig = JSON.parse(content);
-    } catch (error) {
-      console.log(`\x1b[33mWarning: Unable to read existing config, will create new config\x1b[0m`);
-    }
+  try {
+    return readFileSync(configPath, 'utf-8');
+  } catch (error) {
+    throw new Error(`Unable to read ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
   }
-
-  // Merge VS Code MCP configuration
-  const mergedConfig = {
-    ...existingConfig,
-    'mcp.servers': vscodeConfig.servers,
-    'mcp.inputs': vscodeConfig.inputs
-  };
-
-  writeFileSync(configPath, JSON.stringify(mergedConfig, null, 2), 'utf-8');
-  console.log(`\x1b[32mUpdated: ${configPath}\x1b[0m`);
 }
 
-function updateTomlConfig(configPath: string, mcpServerPath: string): void {
-  const configDir = dirname(configPath);
-  mkdirSync(configDir, { recursive: true });
-
-  backupConfig(configPath);
-
-  let existingContent = '';
-  if (existsSync(configPath)) {
-    try {
-      existingContent = readFileSync(configPath, 'utf-8');
-    } catch (error) {
-      console.log(`\x1b[33mWarning: Unable to read existing config, will create new config\x1b[0m`);
-    }
+/**
+ * Write the new content of a config file, following the sync mode
+ * - dry run: print the diff, write nothing
+ * - confirm: print the diff and ask before writing
+ * Unchanged files are left alone (and not backed up)
+ * Returns false when the change was declined
+ */
+async function applyConfigChange(agent: string, configPath: string, oldContent: string, newContent: string, options: SyncOptions): Promise<boolean> {
+  const exists = existsSync(configPath);
+  if (exists && oldContent === newContent) {
+    console.log(`Already up to date: ${configPath}`);
+    return true;
   }
 
-  // Check if [mcp_servers.ai-skills-hub] section already exists
-  const sectionRegex = /^\[mcp_servers\.ai-skills-hub\]/m;
-  let updatedContent = '';
-
-  if (sectionRegex.test(existingContent)) {
-    // Section exists, update it
-    console.log('\x1b[33mExisting MCP configuration found, updating...\x1b[0m');
-    
-    // Replace the entire [mcp_servers.ai-skills-hub] section
-    const replacementRegex = /^\[mcp_servers\.ai-skills-hub\][\s\S]*?(?=^\[|$)/m;
-    const newSection = generateTomlMcpSection(mcpServerPath);
-    updatedContent = existingContent.replace(replacementRegex, newSection);
-  } else {
-    // Section doesn't exist, append it
-    console.log('\x1b[33mAdding new MCP configuration...\x1b[0m');
-    
-    // Add a newline before the section if the file is not empty
-    const separator = existingContent.trim() ? '\n\n' : '';
-    updatedContent = existingContent + separator + generateTomlMcpSection(mcpServerPath);
+  if (options.dryRun || options.confirm) {
+    process.stdout.write(colorizeDiff(unifiedDiff(oldContent, newContent, exists ? configPath : '/dev/null', configPath)));
+  }
+  if (options.dryRun) {
+    console.log(`\x1b[36mWould update: ${configPath}\x1b[0m`);
+    return true;
+  }
+  if (options.confirm && !(await confirm(`Apply these changes to ${configPath}?`))) {
+    console.log(`Skipped: ${configPath}`);
+    return false;
   }
 
-  writeFileSync(configPath, updatedContent, 'utf-8');
+  mkdirSync(dirname(configPath), { recursive: true });
+  await backupConfig(agent, configPath);
+  writeFileSync(configPath, newContent, 'utf-8');
   console.log(`\x1b[32mUpdated: ${configPath}\x1b[0m`);
+  return true;
 }
 
-function generateTomlMcpSection(mcpServerPath: string): string {
-  return `[mcp_servers.ai-skills-hub]
-command = "node"
-args = ["${mcpServerPath}"]
-`;
-}
-
-async function configureClaudeDesktop(os: string, mcpConfig: any): Promise<void> {
-  console.log('\n\x1b[33mConfiguring Claude Desktop...\x1b[0m');
-  const configPath = getConfigPath(os, 'claude-desktop');
-  if (configPath) {
-    updateJsonConfig(configPath, mcpConfig);
-  }
+interface LegacyMigration {
+  legacyPath: string;
+  legacyContent: string;
+  migratedLegacyContent: string;
+  content: string;
 }
 
-async function configureCursor(os: string, mcpConfig: any): Promise<void> {
-  console.log('\n\x1b[33mConfiguring Cursor...\x1b[0m');
-  const configPath = getConfigPath(os, 'cursor');
-  if (configPath) {
-    updateJsonConfig(configPath, mcpConfig);
+/**
+ * Move the servers out of the agent's legacy config location, in memory
+ * content is the agent config with the migrated servers, null when there is nothing to migrate
+ */
+function migrateLegacyConfig(adapter: AgentAdapter, content: string): LegacyMigration | null {
+  const legacyPath = adapter.legacy?.configPath();
+  if (!adapter.legacy || !legacyPath || !existsSync(legacyPath)) {
+    return null;
   }
-}
 
-async function configureVSCode(os: string, mcpConfig: any): Promise<void> {
-  console.log('\n\x1b[33mConfiguring VS Code...\x1b[0m');
-  const configPath = getConfigPath(os, 'vscode');
-  if (configPath) {
-    try {
-      // Check if VS Code is installed by checking if settings.json directory exists
-      const configDir = dirname(configPath);
-      if (!existsSync(configDir)) {
-        console.log('\x1b[33mVS Code not installed or settings directory not found, skipping configuration\x1b[0m');
-        return;
-      }
-      
-      // VS Code uses a different MCP config format
-      const mcpServerPath = mcpConfig.mcpServers['ai-skills-hub'].args[0];
-      const vscodeConfig = {
-        servers: {
-          'ai-skills-hub': {
-            type: 'stdio',
-            command: 'node',
-            args: [mcpServerPath]
-          }
-        },
-        inputs: []
-      };
-      
-      updateVSCodeConfig(configPath, vscodeConfig);
-    } catch (error) {
-      console.log('\x1b[33mFailed to configure VS Code, skipping\x1b[0m');
-      if (error instanceof Error) {
-        console.log(`\x1b[33mError: ${error.message}\x1b[0m`);
-      }
+  const legacyContent = readFileSync(legacyPath, 'utf-8');
+  try {
+    const migrated = adapter.legacy.migrate(legacyContent, content);
+    if (!migrated) {
+      return null;
     }
+    console.log(`Migrating MCP servers from ${legacyPath}`);
+    return { legacyPath, legacyContent, migratedLegacyContent: migrated.legacyContent, content: migrated.content };
+  } catch (error) {
+    console.log(`\x1b[33mUnable to migrate MCP servers from ${legacyPath}, left unchanged: ${error instanceof Error ? error.message : String(error)}\x1b[0m`);
+    return null;
   }
 }
 
-async function configureCodex(os: string, mcpConfig: any): Promise<void> {
-  console.log('\n\x1b[33mConfiguring OpenAI Codex...\x1b[0m');
-  try {
-    execSync('which codex', { stdio: 'ignore' });
-    const configPath = getConfigPath(os, 'codex');
-    if (configPath) {
-      const mcpServerPath = mcpConfig.mcpServers['ai-skills-hub'].args[0];
-      updateTomlConfig(configPath, mcpServerPath);
+/**
+ * Add or update the ai-skills-hub entry in one agent's config
+ */
+async function configureAgent(adapter: AgentAdapter, server: McpServerConfig, options: SyncOptions): Promise<void> {
+  console.log(`\n\x1b[33mConfiguring ${adapter.name}...\x1b[0m`);
+  if (!adapter.detect()) {
+    console.log(`\x1b[33m${adapter.name} not installed, skipping configuration\x1b[0m`);
+    if (adapter.installHint) {
+      console.log(`Install: ${adapter.installHint}`);
     }
-  } catch {
-    console.log('\x1b[33mCodex CLI not installed, skipping configuration\x1b[0m');
-    console.log('Install command: npm install -g @openai/codex');
+    return;
   }
-}
 
-async function configureCopilot(os: string): Promise<void> {
-  console.log('\n\x1b[33mConfiguring GitHub Copilot...\x1b[0m');
-  try {
-    execSync('which copilot', { stdio: 'ignore' });
-    const configPath = getConfigPath(os, 'copilot');
-    if (configPath) {
-      mkdirSync(dirname(configPath), { recursive: true });
-      if (!existsSync(configPath)) {
-        writeFileSync(configPath, '{}', 'utf-8');
-      }
-      console.log(`\x1b[32mCopilot config file location: ${configPath}\x1b[0m`);
-      console.log('\x1b[33mPlease manually check if Copilot supports MCP configuration\x1b[0m');
-    }
-  } catch {
-    console.log('\x1b[33mCopilot CLI not installed, skipping configuration\x1b[0m');
-    console.log('Install command: brew install copilot-cli or npm install -g @github/copilot-cli');
+  const configPath = adapter.configPath();
+  if (!configPath) {
+    console.log(`\x1b[33mNo ${adapter.name} config location on this OS, skipping configuration\x1b[0m`);
+    return;
   }
-}
 
-async function configureGemini(os: string): Promise<void> {
-  console.log('\n\x1b[33mConfiguring Gemini CLI...\x1b[0m');
   try {
-    execSync('which gemini', { stdio: 'ignore' });
-    const configPath = getConfigPath(os, 'gemini');
-    if (configPath) {
-      mkdirSync(dirname(configPath), { recursive: true });
-      if (!existsSync(configPath)) {
+    if (adapter.manual) {
+      if (!options.dryRun && !existsSync(configPath)) {
+        mkdirSync(dirname(configPath), { recursive: true });
         writeFileSync(configPath, '{}', 'utf-8');
       }
-      console.log(`\x1b[32mGemini config file location: ${configPath}\x1b[0m`);
-      console.log('\x1b[33mPlease manually check if Gemini CLI supports MCP configuration\x1b[0m');
+      console.log(`\x1b[32m${adapter.name} config file location: ${configPath}\x1b[0m`);
+      console.log(`\x1b[33mPlease manually check if ${adapter.name} supports MCP configuration\x1b[0m`);
+      return;
     }
-  } catch {
-    console.log('\x1b[33mGemini CLI not installed, skipping configuration\x1b[0m');
-    console.log('Install command: npm install -g @google/gemini-cli');
-  }
-}
 
-async function configureClaudeCode(os: string, mcpConfig: any): Promise<void> {
-  console.log('\n\x1b[33mConfiguring Claude Code CLI...\x1b[0m');
-  
-  let commandFound = false;
-  let command = '';
-  
-  // Check for 'claude' command first
-  try {
-    execSync('which claude', { stdio: 'ignore' });
-    commandFound = true;
-    command = 'claude';
-  } catch {
-    // If 'claude' not found, try 'claude-code'
-    try {
-      execSync('which claude-code', { stdio: 'ignore' });
-      commandFound = true;
-      command = 'claude-code';
-    } catch {
-      console.log('\x1b[33mClaude Code CLI not installed, skipping configuration\x1b[0m');
-      console.log('Install command: npm install -g @anthropic-ai/claude-code');
+    const existingContent = readConfigContent(configPath);
+    const migration = migrateLegacyConfig(adapter, existingContent);
+    const updated = await applyConfigChange(adapter.key, configPath, existingContent, adapter.upsert(migration?.content ?? existingContent, server), options);
+    // The legacy config only loses its servers once they are in the new one
+    if (migration && updated) {
+      await applyConfigChange(adapter.key, migration.legacyPath, migration.legacyContent, migration.migratedLegacyContent, options);
     }
-  }
-  
-  if (commandFound) {
-    console.log(`\x1b[32mFound command: ${command}\x1b[0m`);
-    const configPath = getConfigPath(os, 'claude-code');
-    if (configPath) {
-      updateJsonConfig(configPath, mcpConfig);
+  } catch (error) {
+    // Configs that can't be parsed are never rewritten, the user's settings would be lost
+    console.log(`\x1b[33mFailed to configure ${adapter.name}, ${configPath} was left unchanged\x1b[0m`);
+    if (error instanceof Error) {
+      console.log(`\x1b[33mError: ${error.message}\x1b[0m`);
     }
   }
 }
@@ -0,0 +1,71 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { backupConfig } from './sync.js';
+import { SERVER_NAME, selectAgents } from '../agents/index.js';
+
+interface UnsyncOptions {
+  only?: string;
+  skip?: string;
+  workspace?: string;
+}
+
+/**
+ * Remove the ai-skills-hub entry from one config file, true when the file was updated
+ */
+async function removeFromConfig(agent: string, configPath: string, remove: (content: string) => string | null): Promise<boolean> {
+  let updated: string | null;
+  try {
+    updated = remove(readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    console.log(`\x1b[31m✗ Unable to parse ${configPath}, left unchanged: ${error instanceof Error ? error.message : String(error)}\x1b[0m`);
+    return false;
+  }
+
+  if (updated === null) {
+    console.log(`○ ${SERVER_NAME} is not configured in ${configPath}`);
+    return false;
+  }
+
+  await backupConfig(agent, configPath);
+  writeFileSync(configPath, updated, 'utf-8');
+  console.log(`\x1b[32m✓ Removed ${SERVER_NAME} from ${configPath}\x1b[0m`);
+  return true;
+}
+
+export async function unsyncCommand(options: UnsyncOptions) {
+  console.log('\x1b[32m=== AI Skills Hub Unsync ===\x1b[0m');
+
+  try {
+    let removed = 0;
+
+    // Agents configured by hand have no entry of ours to remove
+    for (const adapter of selectAgents(options).filter(adapter => !adapter.manual)) {
+      console.log(`\n\x1b[33m${adapter.name}\x1b[0m`);
+
+      // An entry left in the legacy location (not migrated yet) is removed too
+      const legacy = adapter.legacy;
+      const legacyPath = legacy?.configPath();
+      if (legacy && legacyPath && existsSync(legacyPath)) {
+        if (await removeFromConfig(adapter.key, legacyPath, content => legacy.remove(content))) {
+          removed++;
+        }
+      }
+
+      const configPath = adapter.configPath();
+      if (!configPath || !existsSync(configPath)) {
+        console.log(`○ No config file${configPath ? ` (${configPath})` : ''}, nothing to remove`);
+        continue;
+      }
+      if (await removeFromConfig(adapter.key, configPath, content => adapter.remove(content))) {
+        removed++;
+      }
+    }
+
+    console.log(`\n\x1b[32mUnsync complete, ${removed} config file(s) updated\x1b[0m`);
+    if (removed > 0) {
+      console.log('\x1b[33mTip: Restart the AI tools to unload the MCP server\x1b[0m');
+    }
+  } catch (error) {
+    console.error('\x1b[31mError:', error instanceof Error ? error.message : String(error), '\x1b[0m');
+    process.exit(1);
+  }
+}
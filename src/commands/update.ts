@@ -0,0 +1,139 @@
+import { installSkill, formatFileMode, SkillFile } from '../install.js';
+import { readLockfile, writeLockfile, checkSkillUpdates, hashSkillFiles, SKILLS_LOCK_FILE } from '../lockfile.js';
+import { unifiedDiff, colorizeDiff } from '../diff.js';
+import { detectMimeTypeOfContent, isTextMimeType } from '../mime.js';
+import { confirm, isInteractive } from '../prompt.js';
+
+interface UpdateOptions {
+  force?: boolean;
+  yes?: boolean;
+}
+
+// Larger text files are reported as changed without printing their diff
+const MAX_DIFF_BYTES = 256 * 1024;
+
+function shortCommit(commit: string | undefined): string {
+  return commit ? commit.slice(0, 12) : 'unknown';
+}
+
+/**
+ * Print the changes between the installed files and the new files, file by file
+ */
+function printSkillDiff(name: string, oldFiles: SkillFile[], newFiles: SkillFile[]): void {
+  const oldByPath = new Map(oldFiles.map(file => [file.path, file]));
+  const newByPath = new Map(newFiles.map(file => [file.path, file]));
+  const paths = Array.from(new Set([...oldByPath.keys(), ...newByPath.keys()])).sort();
+
+  for (const path of paths) {
+    const oldFile = oldByPath.get(path);
+    const newFile = newByPath.get(path);
+    if (oldFile && newFile && oldFile.mode === newFile.mode && oldFile.content.equals(newFile.content)) {
+      continue;
+    }
+
+    if (oldFile && newFile && oldFile.mode !== newFile.mode) {
+      console.log(`\x1b[33mmode ${path}: ${formatFileMode(oldFile.mode)} -> ${formatFileMode(newFile.mode)}\x1b[0m`);
+      if (oldFile.content.equals(newFile.content)) continue;
+    }
+
+    const sample = (newFile ?? oldFile)!;
+    const isText = isTextMimeType(detectMimeTypeOfContent(path, sample.content));
+    const size = Math.max(oldFile?.content.length ?? 0, newFile?.content.length ?? 0);
+    if (!isText || size > MAX_DIFF_BYTES) {
+      const change = !oldFile ? 'added' : !newFile ? 'removed' : 'changed';
+      console.log(`\x1b[33m${isText ? 'Large' : 'Binary'} file ${change}: ${path}\x1b[0m`);
+      continue;
+    }
+
+    const diff = unifiedDiff(
+      oldFile ? oldFile.content.toString('utf-8') : '',
+      newFile ? newFile.content.toString('utf-8') : '',
+      oldFile ? `a/${name}/${path}` : '/dev/null',
+      newFile ? `b/${name}/${path}` : '/dev/null'
+    );
+    process.stdout.write(colorizeDiff(diff));
+  }
+}
+
+export async function updateCommand(skillNames: string[], options: UpdateOptions) {
+  console.log('\x1b[32m=== AI Skills Hub - Update Skills ===\x1b[0m\n');
+
+  try {
+    const lockfile = await readLockfile();
+    const untracked = skillNames.filter(name => !lockfile.skills[name]);
+    if (untracked.length > 0) {
+      throw new Error(`Not in ${SKILLS_LOCK_FILE}: ${untracked.join(', ')} (reinstall with "skillshub add" to track them)`);
+    }
+    if (Object.keys(lockfile.skills).length === 0) {
+      console.log('No skills installed with "skillshub add" yet, nothing to update');
+      return;
+    }
+
+    console.log('\x1b[33mChecking sources...\x1b[0m');
+    const statuses = await checkSkillUpdates(lockfile, skillNames.length > 0 ? skillNames : undefined);
+
+    let updated = 0;
+    let skipped = 0;
+    let failed = 0;
+    for (const status of statuses) {
+      const { name, entry } = status;
+      console.log(`\n\x1b[36m${name}\x1b[0m (${entry.source})`);
+
+      if (status.error) {
+        failed++;
+        console.log(`\x1b[31m✗ Unable to check: ${status.error}\x1b[0m`);
+        continue;
+      }
+      if (status.installed === null) {
+        console.log('\x1b[33mMissing from the skills directory, it will be reinstalled\x1b[0m');
+      } else if (!status.outdated) {
+        console.log(status.modified
+          ? '\x1b[33m○ Up to date with its source, but has local edits\x1b[0m'
+          : '\x1b[32m✓ Up to date\x1b[0m');
+        continue;
+      }
+
+      const upstream = status.upstream!;
+      const newCommit = status.upstreamSource?.commit;
+      if (entry.commit || newCommit) {
+        console.log(`Commit: ${shortCommit(entry.commit)} -> ${shortCommit(newCommit)}`);
+      }
+      printSkillDiff(name, status.installed ?? [], upstream.files);
+
+      if (status.modified && !options.force) {
+        skipped++;
+        console.log(`\x1b[33m○ Skipped: local edits since it was installed would be lost (use --force to overwrite)\x1b[0m`);
+        continue;
+      }
+      if (!options.yes && isInteractive() && !(await confirm(`Update "${name}"?`))) {
+        skipped++;
+        console.log('Skipped');
+        continue;
+      }
+
+      await installSkill(name, upstream.files, true);
+      lockfile.skills[name] = {
+        ...entry,
+        commit: newCommit,
+        hash: hashSkillFiles(upstream.files),
+        installedAt: new Date().toISOString(),
+      };
+      await writeLockfile(lockfile);
+      updated++;
+      console.log(`\x1b[32m✓ Updated\x1b[0m`);
+    }
+
+    console.log(`\n\x1b[36m=== Update Summary ===\x1b[0m`);
+    console.log(`Updated: ${updated}, skipped: ${skipped}, failed: ${failed}, up to date: ${statuses.length - updated - skipped - failed}`);
+    if (updated > 0) {
+      console.log(`\nTip: Run "skillshub sync" to update MCP configuration`);
+    }
+    if (failed > 0) {
+      process.exit(1);
+    }
+
+  } catch (error) {
+    console.error('\n\x1b[31mError:', error instanceof Error ? error.message : String(error), '\x1b[0m');
+    process.exit(1);
+  }
+}
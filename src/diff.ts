@@ -0,0 +1,160 @@
+/**
+ * One line of a line diff: kept (' '), removed ('-') or added ('+')
+ */
+interface DiffLine {
+  op: ' ' | '-' | '+';
+  text: string;
+}
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split('\n');
+  // A trailing newline ends the last line instead of starting an empty one
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+// Beyond this many edits the texts are shown as fully replaced, keeps time and memory bounded
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Shortest edit script between two line arrays (Myers' O(ND) algorithm)
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  // Common prefix and suffix are cheap to strip and keep the search small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 2).fill(0);
+  // trace[d] holds v[-d..d] as it was before step d
+  const trace: number[][] = [];
+  let found = false;
+
+  search:
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && midA[x] === midB[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break search;
+      }
+    }
+  }
+
+  const same = (lines: string[]) => lines.map(text => ({ op: ' ' as const, text }));
+  if (!found) {
+    return [
+      ...same(a.slice(0, start)),
+      ...midA.map(text => ({ op: '-' as const, text })),
+      ...midB.map(text => ({ op: '+' as const, text })),
+      ...same(a.slice(endA)),
+    ];
+  }
+
+  // Walk the trace backwards to recover the edits
+  const middle: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[d + k - 1] < vd[d + k + 1]) ? k + 1 : k - 1;
+    const prevX = d > 0 ? vd[d + prevK] : 0;
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      middle.push({ op: ' ', text: midA[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        middle.push({ op: '+', text: midB[--y] });
+      } else {
+        middle.push({ op: '-', text: midA[--x] });
+      }
+    }
+  }
+  middle.reverse();
+
+  return [...same(a.slice(0, start)), ...middle, ...same(a.slice(endA))];
+}
+
+/**
+ * Unified diff of two texts (like `diff -u`), empty string when they are equal
+ */
+export function unifiedDiff(oldText: string, newText: string, oldLabel: string, newLabel: string, context = 3): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  let idx = 0;
+  while (idx < lines.length) {
+    // Find the next change, then grow the hunk while changes are within 2 * context lines
+    const firstChange = lines.findIndex((line, i) => i >= idx && line.op !== ' ');
+    if (firstChange < 0) break;
+
+    const hunkStart = Math.max(idx, firstChange - context);
+    let hunkEnd = firstChange;
+    for (let i = firstChange; i < lines.length; i++) {
+      if (lines[i].op !== ' ') {
+        hunkEnd = i;
+      } else if (i - hunkEnd > 2 * context) {
+        break;
+      }
+    }
+    hunkEnd = Math.min(lines.length - 1, hunkEnd + context);
+
+    // Line numbers of the hunk start in both files
+    let oldLine = 1;
+    let newLine = 1;
+    for (let i = 0; i < hunkStart; i++) {
+      if (lines[i].op !== '+') oldLine++;
+      if (lines[i].op !== '-') newLine++;
+    }
+    const hunk = lines.slice(hunkStart, hunkEnd + 1);
+    const oldCount = hunk.filter(line => line.op !== '+').length;
+    const newCount = hunk.filter(line => line.op !== '-').length;
+
+    output.push(`@@ -${oldCount ? oldLine : oldLine - 1},${oldCount} +${newCount ? newLine : newLine - 1},${newCount} @@`);
+    output.push(...hunk.map(line => `${line.op}${line.text}`));
+    idx = hunkEnd + 1;
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * Colorize a unified diff for the terminal
+ */
+export function colorizeDiff(diff: string): string {
+  return diff.split('\n').map(line => {
+    if (line.startsWith('+++') || line.startsWith('---')) return `\x1b[1m${line}\x1b[0m`;
+    if (line.startsWith('@@')) return `\x1b[36m${line}\x1b[0m`;
+    if (line.startsWith('+')) return `\x1b[32m${line}\x1b[0m`;
+    if (line.startsWith('-')) return `\x1b[31m${line}\x1b[0m`;
+    return line;
+  }).join('\n');
+}
@@ -0,0 +1,186 @@
+import { SkillFile } from './install.js';
+
+// Base URLs, overridable so `add` can run against a local stand-in server
+export const GITHUB_API_URL_ENV = 'SKILLSHUB_GITHUB_API_URL';
+export const GITHUB_RAW_URL_ENV = 'SKILLSHUB_GITHUB_RAW_URL';
+
+// Tree entry modes (see git's object format)
+const MODE_EXECUTABLE = '100755';
+const MODE_SYMLINK = '120000';
+
+/**
+ * A directory in a GitHub repository
+ * Refs may contain "/", so the ref and the path are kept together until the API tells them apart
+ */
+export interface GitHubLocation {
+  owner: string;
+  repo: string;
+  refAndPath: string[];
+}
+
+interface TreeEntry {
+  path: string;
+  mode: string;
+  type: string;
+  sha: string;
+  size?: number;
+}
+
+/**
+ * Parse a GitHub URL pointing at a skill directory or its SKILL.md
+ * Accepted forms:
+ * - https://github.com/{owner}/{repo}/tree/{ref}/path/to/skill
+ * - https://github.com/{owner}/{repo}/blob/{ref}/path/to/skill/SKILL.md
+ * - https://raw.githubusercontent.com/{owner}/{repo}/{ref}/path/to/skill/SKILL.md
+ * Returns null for other URLs
+ */
+export function parseGitHubUrl(url: string): GitHubLocation | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const segments = parsed.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  let refAndPath: string[];
+
+  if (parsed.hostname === 'github.com' && segments.length >= 4 && ['tree', 'blob'].includes(segments[2])) {
+    refAndPath = segments.slice(3);
+  } else if (parsed.hostname === 'raw.githubusercontent.com' && segments.length >= 3) {
+    refAndPath = segments.slice(2);
+  } else {
+    return null;
+  }
+
+  // A SKILL.md URL installs its containing directory
+  if (refAndPath[refAndPath.length - 1] === 'SKILL.md') {
+    refAndPath = refAndPath.slice(0, -1);
+  }
+
+  return { owner: segments[0], repo: segments[1], refAndPath };
+}
+
+function apiUrl(): string {
+  return (process.env[GITHUB_API_URL_ENV] || 'https://api.github.com').replace(/\/$/, '');
+}
+
+function rawUrl(): string {
+  return (process.env[GITHUB_RAW_URL_ENV] || 'https://raw.githubusercontent.com').replace(/\/$/, '');
+}
+
+function encodePath(segments: string[]): string {
+  return segments.map(encodeURIComponent).join('/');
+}
+
+async function githubFetch(url: string): Promise<Response> {
+  const headers: Record<string, string> = { 'User-Agent': 'ai-skills-hub' };
+  if (process.env.GITHUB_TOKEN) {
+    headers.Authorization = `Bearer ${process.env.GITHUB_TOKEN}`;
+  }
+
+  try {
+    return await fetch(url, { headers });
+  } catch (error) {
+    throw new Error(`Failed to download ${url}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function fetchJson<T>(url: string): Promise<T | null> {
+  const response = await githubFetch(url);
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`GitHub API request failed (HTTP ${response.status}): ${url}`);
+  }
+  return await response.json() as T;
+}
+
+/**
+ * Find the git tree of the directory, trying each split of the segments into ref and path
+ * (shortest ref first, like GitHub itself does for branch names containing "/")
+ */
+async function resolveDirectoryTree(location: GitHubLocation): Promise<{ ref: string; path: string[]; treeSha: string }> {
+  const { owner, repo, refAndPath } = location;
+  const repoApi = `${apiUrl()}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+
+  for (let i = 1; i <= refAndPath.length; i++) {
+    const ref = refAndPath.slice(0, i).join('/');
+    const path = refAndPath.slice(i);
+
+    // Repository root: the ref itself names the tree
+    if (path.length === 0) {
+      const commit = await fetchJson<{ commit: { tree: { sha: string } } }>(`${repoApi}/commits/${encodeURIComponent(ref)}`);
+      if (commit) {
+        return { ref, path, treeSha: commit.commit.tree.sha };
+      }
+      continue;
+    }
+
+    // Otherwise the directory's tree sha is listed in its parent's contents
+    const parent = path.slice(0, -1);
+    const entries = await fetchJson<Array<{ name: string; type: string; sha: string }>>(
+      `${repoApi}/contents/${encodePath(parent)}?ref=${encodeURIComponent(ref)}`
+    );
+    if (!Array.isArray(entries)) {
+      continue;
+    }
+    const dir = entries.find(entry => entry.name === path[path.length - 1]);
+    if (dir && dir.type === 'dir') {
+      return { ref, path, treeSha: dir.sha };
+    }
+    if (dir) {
+      throw new Error(`Not a directory: ${path.join('/')}`);
+    }
+  }
+
+  throw new Error(`Directory not found in ${owner}/${repo}: ${refAndPath.join('/')}`);
+}
+
+/**
+ * Download every file of a skill directory on GitHub, keeping file modes
+ * Symlinks are skipped (their targets could point anywhere once installed)
+ * `commit` is the commit the ref pointed at, recorded in the lockfile
+ */
+export async function fetchGitHubDirectory(
+  location: GitHubLocation
+): Promise<{ name: string; files: SkillFile[]; skipped: string[]; ref: string; commit?: string }> {
+  const { owner, repo } = location;
+  const { ref, path, treeSha } = await resolveDirectoryTree(location);
+  const repoApi = `${apiUrl()}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  const commit = await fetchJson<{ sha: string }>(`${repoApi}/commits/${encodeURIComponent(ref)}`);
+
+  const tree = await fetchJson<{ tree: TreeEntry[]; truncated?: boolean }>(`${repoApi}/git/trees/${treeSha}?recursive=1`);
+  if (!tree) {
+    throw new Error(`Unable to list ${owner}/${repo}/${path.join('/')}`);
+  }
+  if (tree.truncated) {
+    throw new Error(`Directory ${path.join('/') || repo} is too large to list through the GitHub API`);
+  }
+
+  // Download at the resolved commit, so a branch moving meanwhile can't mix two versions
+  const downloadRef = commit?.sha ?? ref;
+  const files: SkillFile[] = [];
+  const skipped: string[] = [];
+  for (const entry of tree.tree) {
+    if (entry.type !== 'blob') continue;
+    if (entry.mode === MODE_SYMLINK) {
+      skipped.push(entry.path);
+      continue;
+    }
+
+    const url = `${rawUrl()}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/${encodePath(downloadRef.split('/'))}/${encodePath([...path, ...entry.path.split('/')])}`;
+    const response = await githubFetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download ${url} (HTTP ${response.status})`);
+    }
+    files.push({
+      path: entry.path,
+      mode: entry.mode === MODE_EXECUTABLE ? 0o755 : 0o644,
+      content: Buffer.from(await response.arrayBuffer()),
+    });
+  }
+
+  return { name: path[path.length - 1] || repo, files, skipped, ref, commit: commit?.sha };
+}
@@ -0,0 +1,175 @@
+import { randomUUID } from 'crypto';
+import { Hono } from 'hono';
+import { bearerAuth } from 'hono/bearer-auth';
+import { serve, HttpBindings } from '@hono/node-server';
+import { RESPONSE_ALREADY_SENT } from '@hono/node-server/utils/response';
+import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { SkillsHubServer } from './server.js';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  authToken?: string;
+  // Streamable HTTP sessions without a request for this long are closed (default: 30 minutes)
+  sessionIdleTimeoutMs?: number;
+}
+
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Endpoint paths
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+
+/**
+ * Build a JSON-RPC error response (used before a transport takes over the request)
+ */
+function jsonRpcError(status: number, code: number, message: string): Response {
+  return new Response(
+    JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }),
+    { status, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+/**
+ * Create the Hono app serving MCP over Streamable HTTP (`/mcp`)
+ * and the legacy HTTP+SSE transport (`GET /sse` + `POST /messages`) for older clients
+ * Each client session gets its own SkillsHubServer instance
+ * Streamable HTTP clients that go away without a DELETE leave their session open, idle sessions are closed
+ * (SSE sessions end with their event stream)
+ */
+export function createHttpApp(options: HttpServerOptions) {
+  const app = new Hono<{ Bindings: HttpBindings }>();
+  const streamableSessions = new Map<string, { transport: WebStandardStreamableHTTPServerTransport; server: SkillsHubServer; lastActive: number }>();
+  const sseSessions = new Map<string, { transport: SSEServerTransport; server: SkillsHubServer }>();
+
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const evictIdleSessions = async () => {
+    const now = Date.now();
+    for (const [id, session] of streamableSessions) {
+      if (now - session.lastActive >= idleTimeoutMs) {
+        streamableSessions.delete(id);
+        await session.server.close().catch(() => undefined);
+      }
+    }
+  };
+  // Checked a few times per timeout, the timer doesn't keep the process alive
+  const evictionTimer = setInterval(evictIdleSessions, Math.min(Math.max(idleTimeoutMs / 4, 1000), 60 * 1000));
+  evictionTimer.unref();
+
+  app.get('/health', (c) => c.json({ status: 'ok' }));
+
+  if (options.authToken) {
+    const auth = bearerAuth({ token: options.authToken });
+    app.use(MCP_PATH, auth);
+    app.use(SSE_PATH, auth);
+    app.use(SSE_MESSAGES_PATH, auth);
+  }
+
+  // Streamable HTTP transport
+  app.all(MCP_PATH, async (c) => {
+    const sessionId = c.req.header('mcp-session-id');
+
+    if (sessionId) {
+      const session = streamableSessions.get(sessionId);
+      if (!session) {
+        return jsonRpcError(404, -32001, 'Session not found');
+      }
+      session.lastActive = Date.now();
+      return session.transport.handleRequest(c.req.raw);
+    }
+
+    // Without a session id, only an initialize request can start a new session
+    if (c.req.method !== 'POST') {
+      return jsonRpcError(400, -32000, 'Bad Request: No valid session ID provided');
+    }
+
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return jsonRpcError(400, -32700, 'Parse error: Invalid JSON');
+    }
+
+    if (!isInitializeRequest(body)) {
+      return jsonRpcError(400, -32000, 'Bad Request: No valid session ID provided');
+    }
+
+    const server = new SkillsHubServer();
+    const transport = new WebStandardStreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamableSessions.set(id, { transport, server, lastActive: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        streamableSessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    return transport.handleRequest(c.req.raw, { parsedBody: body });
+  });
+
+  // Legacy HTTP+SSE transport: open event stream
+  app.get(SSE_PATH, async (c) => {
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, c.env.outgoing);
+    const server = new SkillsHubServer();
+    sseSessions.set(transport.sessionId, { transport, server });
+    transport.onclose = () => {
+      sseSessions.delete(transport.sessionId);
+    };
+
+    // connect() starts the SSE stream and writes directly to the Node response
+    await server.connect(transport);
+    return RESPONSE_ALREADY_SENT;
+  });
+
+  // Legacy HTTP+SSE transport: client-to-server messages
+  app.post(SSE_MESSAGES_PATH, async (c) => {
+    const sessionId = c.req.query('sessionId');
+    const session = sessionId ? sseSessions.get(sessionId) : undefined;
+    if (!session) {
+      return jsonRpcError(404, -32001, 'Session not found');
+    }
+
+    await session.transport.handlePostMessage(c.env.incoming, c.env.outgoing);
+    return RESPONSE_ALREADY_SENT;
+  });
+
+  /**
+   * Close every open session (used on shutdown)
+   */
+  const closeAll = async () => {
+    clearInterval(evictionTimer);
+    const sessions = [...streamableSessions.values(), ...sseSessions.values()];
+    streamableSessions.clear();
+    sseSessions.clear();
+    await Promise.all(sessions.map(({ server }) => server.close().catch(() => undefined)));
+  };
+
+  return { app, closeAll, evictIdleSessions };
+}
+
+/**
+ * Start the HTTP server and keep serving until SIGINT/SIGTERM
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<void> {
+  const { app, closeAll } = createHttpApp(options);
+
+  await new Promise<void>((resolve, reject) => {
+    const httpServer = serve({ fetch: app.fetch, hostname: options.host, port: options.port }, () => resolve());
+    httpServer.once('error', reject);
+
+    const shutdown = async () => {
+      await closeAll();
+      httpServer.close();
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  });
+}
@@ -0,0 +1,139 @@
+import { mkdir, writeFile, chmod, rename, rm, cp } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { randomBytes } from 'crypto';
+import { USER_SKILLS_DIR } from './utils.js';
+import { validateSkillPath } from './skillfs.js';
+
+/**
+ * One file of a skill to install, `path` is relative to the skill directory
+ */
+export interface SkillFile {
+  path: string;
+  mode: number;
+  content: Buffer;
+}
+
+// Removed skills are moved here instead of being deleted
+export const SKILLS_TRASH_DIR = join(dirname(USER_SKILLS_DIR), 'trash');
+
+// Skill directory names become folder names and tool names, keep them portable
+const SKILL_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Check that a skill can be installed: valid name, SKILL.md present, safe file paths
+ * Throws with a descriptive message otherwise
+ */
+export function validateSkillFiles(name: string, files: SkillFile[]): void {
+  if (!SKILL_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid skill name "${name}": use letters, digits, ".", "_" and "-"`);
+  }
+  if (!files.some(file => file.path === 'SKILL.md')) {
+    throw new Error(`Skill "${name}" has no SKILL.md`);
+  }
+  for (const file of files) {
+    try {
+      validateSkillPath(file.path);
+    } catch (error) {
+      throw new Error(`Unsafe file path in skill "${name}": ${file.path} (${error instanceof Error ? error.message : String(error)})`);
+    }
+  }
+}
+
+/**
+ * Format a file mode the way `ls -l` shows permissions (e.g. rwxr-xr-x)
+ */
+export function formatFileMode(mode: number): string {
+  const flags = ['r', 'w', 'x'];
+  let result = '';
+  for (let bit = 8; bit >= 0; bit--) {
+    result += mode & (1 << bit) ? flags[(8 - bit) % 3] : '-';
+  }
+  return result;
+}
+
+/**
+ * Install a skill into the user skills directory
+ * Files are written to a staging directory next to the target first, then moved into place
+ * with a rename, so an interrupted install never leaves a half-written skill behind
+ * An existing skill is only replaced when `force` is set
+ * Returns the installed skill directory
+ */
+export async function installSkill(name: string, files: SkillFile[], force = false): Promise<string> {
+  validateSkillFiles(name, files);
+
+  const targetDir = join(USER_SKILLS_DIR, name);
+  if (existsSync(targetDir) && !force) {
+    throw new Error(`Skill "${name}" already exists, use --force to overwrite it`);
+  }
+
+  // Staged next to (not inside) the skills directory: same filesystem for the rename,
+  // but never picked up by the scanner or the watcher while half-written
+  const suffix = randomBytes(4).toString('hex');
+  const stagingRoot = join(dirname(USER_SKILLS_DIR), 'tmp');
+  const stagingDir = join(stagingRoot, `${name}-${suffix}`);
+  const previousDir = join(stagingRoot, `${name}-${suffix}.old`);
+  await mkdir(USER_SKILLS_DIR, { recursive: true });
+  await mkdir(stagingRoot, { recursive: true });
+
+  try {
+    for (const file of files) {
+      const filePath = join(stagingDir, ...validateSkillPath(file.path));
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, file.content);
+      await chmod(filePath, file.mode);
+    }
+
+    if (existsSync(targetDir)) {
+      await rename(targetDir, previousDir);
+      try {
+        await rename(stagingDir, targetDir);
+      } catch (error) {
+        await rename(previousDir, targetDir);
+        throw error;
+      }
+      await rm(previousDir, { recursive: true, force: true });
+    } else {
+      await rename(stagingDir, targetDir);
+    }
+  } finally {
+    await rm(stagingDir, { recursive: true, force: true });
+  }
+
+  return targetDir;
+}
+
+/**
+ * Move a skill directory (relative to the user skills directory) to the trash
+ * Skills removed together share one `trash/<timestamp>` directory and keep their relative paths,
+ * so moving a directory back restores it
+ * Returns the skill's location in the trash
+ */
+export async function trashSkill(skillDir: string, trashDir: string): Promise<string> {
+  const segments = validateSkillPath(skillDir);
+  const sourceDir = join(USER_SKILLS_DIR, ...segments);
+  const targetDir = join(trashDir, ...segments);
+  await mkdir(dirname(targetDir), { recursive: true });
+
+  try {
+    await rename(sourceDir, targetDir);
+  } catch (error) {
+    // The skills directory may be a symlink to another filesystem
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+    await cp(sourceDir, targetDir, { recursive: true, preserveTimestamps: true });
+    await rm(sourceDir, { recursive: true, force: true });
+  }
+  return targetDir;
+}
+
+/**
+ * Create a new directory in the trash for one removal, named after the current time
+ */
+export async function createTrashDir(): Promise<string> {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const trashDir = join(SKILLS_TRASH_DIR, `${timestamp}-${randomBytes(2).toString('hex')}`);
+  await mkdir(trashDir, { recursive: true });
+  return trashDir;
+}
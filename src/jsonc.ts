@@ -0,0 +1,387 @@
+/**
+ * JSON with comments (JSONC) editing, as used by VS Code settings
+ * Like toml.ts, edits only replace, insert or remove the properties involved, so comments, trailing commas
+ * and the formatting of the rest of the file stay as the user wrote them
+ */
+
+export type JsonValue = string | number | boolean | null | JsonValue[] | JsonObject;
+
+export interface JsonObject {
+  [key: string]: JsonValue;
+}
+
+/**
+ * A parsed value and where it is in the text (start to after its last character)
+ */
+interface JsonNode {
+  start: number;
+  end: number;
+  value: JsonValue;
+  properties?: JsonProperty[];
+}
+
+/**
+ * An object member, start is the start of its key
+ */
+interface JsonProperty {
+  key: string;
+  start: number;
+  value: JsonNode;
+}
+
+const STRING = /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9A-Fa-f]{4}))*"/y;
+const NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const LITERALS: Array<[string, JsonValue]> = [['true', true], ['false', false], ['null', null]];
+
+export function isJsonObject(value: JsonValue | undefined): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// { a: { b: value } } for the path [a, b]
+function nest(path: string[], value: JsonValue): JsonValue {
+  return path.reduceRight<JsonValue>((inner, key) => ({ [key]: inner }), value);
+}
+
+class Parser {
+  constructor(private readonly text: string, private pos = 0) {}
+
+  private error(message: string): never {
+    const before = this.text.slice(0, this.pos);
+    const line = before.split('\n').length;
+    const column = this.pos - before.lastIndexOf('\n');
+    throw new Error(`Invalid JSON at line ${line}, column ${column}: ${message}`);
+  }
+
+  /**
+   * Skip whitespace, // and block comments (and a byte order mark)
+   */
+  skipTrivia(): number {
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (char === ' ' || char === '\t' || char === '\n' || char === '\r' || char === '\uFEFF') {
+        this.pos++;
+      } else if (this.text.startsWith('//', this.pos)) {
+        const end = this.text.indexOf('\n', this.pos);
+        this.pos = end === -1 ? this.text.length : end;
+      } else if (this.text.startsWith('/*', this.pos)) {
+        const end = this.text.indexOf('*/', this.pos + 2);
+        if (end === -1) this.error('unterminated comment');
+        this.pos = end + 2;
+      } else {
+        break;
+      }
+    }
+    return this.pos;
+  }
+
+  /**
+   * The document's value, null when it has none (empty or only comments)
+   */
+  parseDocument(): JsonNode | null {
+    this.skipTrivia();
+    if (this.pos >= this.text.length) {
+      return null;
+    }
+    const node = this.parseValue();
+    this.skipTrivia();
+    if (this.pos < this.text.length) this.error(`unexpected "${this.text[this.pos]}" after the value`);
+    return node;
+  }
+
+  private parseValue(): JsonNode {
+    const start = this.pos;
+    const char = this.text[this.pos];
+    if (char === '{') return this.parseObject();
+    if (char === '[') return this.parseArray();
+    if (char === '"') return { start, end: this.pos = this.matchString(), value: JSON.parse(this.text.slice(start, this.pos)) };
+
+    NUMBER.lastIndex = this.pos;
+    const number = NUMBER.exec(this.text);
+    if (number) {
+      this.pos += number[0].length;
+      return { start, end: this.pos, value: Number(number[0]) };
+    }
+    for (const [literal, value] of LITERALS) {
+      if (this.text.startsWith(literal, this.pos)) {
+        this.pos += literal.length;
+        return { start, end: this.pos, value };
+      }
+    }
+    this.error(char === undefined ? 'unexpected end of file' : `unexpected "${char}"`);
+  }
+
+  private matchString(): number {
+    STRING.lastIndex = this.pos;
+    if (!STRING.test(this.text)) this.error('invalid string');
+    return STRING.lastIndex;
+  }
+
+  private parseObject(): JsonNode {
+    const start = this.pos++;
+    const value: JsonObject = {};
+    const properties: JsonProperty[] = [];
+
+    while (true) {
+      this.skipTrivia();
+      if (this.text[this.pos] === '}') break;
+      if (this.text[this.pos] !== '"') this.error('expected a property name or "}"');
+
+      const keyStart = this.pos;
+      this.pos = this.matchString();
+      const key: string = JSON.parse(this.text.slice(keyStart, this.pos));
+      this.skipTrivia();
+      if (this.text[this.pos] !== ':') this.error('expected ":"');
+      this.pos++;
+      this.skipTrivia();
+      const member = this.parseValue();
+      properties.push({ key, start: keyStart, value: member });
+      Object.defineProperty(value, key, { value: member.value, enumerable: true, writable: true, configurable: true });
+
+      this.skipTrivia();
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+      } else if (this.text[this.pos] !== '}') {
+        this.error('expected "," or "}"');
+      }
+    }
+
+    this.pos++;
+    return { start, end: this.pos, value, properties };
+  }
+
+  private parseArray(): JsonNode {
+    const start = this.pos++;
+    const value: JsonValue[] = [];
+
+    while (true) {
+      this.skipTrivia();
+      if (this.text[this.pos] === ']') break;
+      value.push(this.parseValue().value);
+      this.skipTrivia();
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+      } else if (this.text[this.pos] !== ']') {
+        this.error('expected "," or "]"');
+      }
+    }
+
+    this.pos++;
+    return { start, end: this.pos, value };
+  }
+}
+
+/**
+ * A JSON file that can be read and edited in place, comments and trailing commas allowed
+ * Throws on construction when the text can't be parsed
+ */
+export class JsoncDocument {
+  private text: string;
+  private root: JsonNode | null = null;
+
+  constructor(text: string) {
+    this.text = text;
+    this.parse();
+  }
+
+  private parse(): void {
+    this.root = new Parser(this.text).parseDocument();
+  }
+
+  // Applied from the end of the text, edits at the same position end up in the order given
+  private edit(edits: Array<[number, number, string]>): void {
+    for (const [start, end, insert] of edits.map((edit, idx) => ({ edit, idx })).sort((a, b) => b.edit[0] - a.edit[0] || b.idx - a.idx).map(({ edit }) => edit)) {
+      this.text = this.text.slice(0, start) + insert + this.text.slice(end);
+    }
+    this.parse();
+  }
+
+  private get eol(): string {
+    return this.text.includes('\r\n') ? '\r\n' : '\n';
+  }
+
+  // The file's indentation step, taken from its least indented line
+  private get indentUnit(): string {
+    let unit: string | null = null;
+    for (const match of this.text.matchAll(/^([ \t]+)\S/gm)) {
+      if (unit === null || match[1].length < unit.length) unit = match[1];
+    }
+    return unit ?? '  ';
+  }
+
+  // Minified files get minified values
+  private get compact(): boolean {
+    return this.root !== null && !this.text.trim().includes('\n');
+  }
+
+  private lineStart(pos: number): number {
+    return this.text.lastIndexOf('\n', pos - 1) + 1;
+  }
+
+  private indentAt(pos: number): string {
+    return /^[ \t]*/.exec(this.text.slice(this.lineStart(pos)))![0];
+  }
+
+  private format(value: JsonValue, indent: string): string {
+    if (this.compact) {
+      return JSON.stringify(value);
+    }
+    return JSON.stringify(value, null, this.indentUnit).split('\n').join(this.eol + indent);
+  }
+
+  // Position of the first token after pos, skipping whitespace and comments
+  private nextToken(pos: number): number {
+    return new Parser(this.text, pos).skipTrivia();
+  }
+
+  private findProperty(node: JsonNode | null, key: string): JsonProperty | undefined {
+    const matches = node?.properties?.filter(property => property.key === key) ?? [];
+    // Like JSON.parse, the last duplicate wins
+    return matches[matches.length - 1];
+  }
+
+  private findNode(path: string[]): JsonNode | null {
+    let node = this.root;
+    for (const key of path) {
+      node = this.findProperty(node, key)?.value ?? null;
+    }
+    return node;
+  }
+
+  toString(): string {
+    return this.text;
+  }
+
+  /**
+   * The value at a key path, undefined when it is not defined
+   */
+  get(path: string[]): JsonValue | undefined {
+    return this.root ? this.findNode(path)?.value : undefined;
+  }
+
+  /**
+   * Set a value, replacing an existing one where it is or adding the property at the end of its object
+   * Missing objects along the path are created
+   */
+  set(path: string[], value: JsonValue): void {
+    if (!this.root) {
+      const rendered = JSON.stringify(nest(path, value), null, this.indentUnit);
+      this.text = this.text.trim() ? `${this.text.replace(/\s*$/, this.eol)}${rendered}` : rendered;
+      this.parse();
+      return;
+    }
+
+    let node = this.root;
+    for (let idx = 0; idx < path.length; idx++) {
+      if (!node.properties) {
+        throw new Error(`Cannot set ${path.join('.')}: ${path.slice(0, idx).join('.') || 'the document'} is not an object`);
+      }
+      const property = this.findProperty(node, path[idx]);
+      if (!property) {
+        this.insertProperty(node, path[idx], nest(path.slice(idx + 1), value));
+        return;
+      }
+      if (idx === path.length - 1) {
+        this.edit([[property.value.start, property.value.end, this.format(value, this.indentAt(property.start))]]);
+        return;
+      }
+      node = property.value;
+    }
+
+    this.edit([[this.root.start, this.root.end, this.format(value, '')]]);
+  }
+
+  private insertProperty(object: JsonNode, key: string, value: JsonValue): void {
+    const properties = object.properties!;
+    const close = object.end - 1;
+    const objectIndent = this.indentAt(object.start);
+
+    if (properties.length === 0) {
+      const childIndent = objectIndent + this.indentUnit;
+      const property = `${JSON.stringify(key)}: ${this.format(value, childIndent)}`;
+      const inner = this.text.slice(object.start + 1, close);
+      if (this.compact) {
+        this.edit([[object.start + 1, close, property]]);
+      } else if (!inner.trim()) {
+        this.edit([[object.start + 1, close, `${this.eol}${childIndent}${property}${this.eol}${objectIndent}`]]);
+      } else if (!this.text.slice(this.lineStart(close), close).trim()) {
+        // Only comments inside, the property goes on its own line before the closing brace
+        this.edit([[this.lineStart(close), this.lineStart(close), `${childIndent}${property}${this.eol}`]]);
+      } else {
+        this.edit([[close, close, `${this.eol}${childIndent}${property}${this.eol}${objectIndent}`]]);
+      }
+      return;
+    }
+
+    const last = properties[properties.length - 1];
+    const comma = this.nextToken(last.value.end);
+    const hasComma = this.text[comma] === ',';
+    const anchor = hasComma ? comma + 1 : last.value.end;
+    const edits: Array<[number, number, string]> = hasComma ? [] : [[last.value.end, last.value.end, ',']];
+
+    if (this.compact) {
+      edits.push([anchor, anchor, `${JSON.stringify(key)}:${this.format(value, '')}`]);
+    } else if (!this.text.slice(object.start, object.end).includes('\n')) {
+      edits.push([anchor, anchor, ` ${JSON.stringify(key)}: ${this.format(value, this.indentAt(last.start))}`]);
+    } else {
+      // After a comment on the same line as the last property, so the comment stays with it
+      // A trailing comma after the last property is kept up for the new one
+      const indent = this.indentAt(last.start);
+      const rest = /^[ \t]*(?:\/\/[^\r\n]*|\/\*.*?\*\/[ \t]*)?(?=\r?\n)/.exec(this.text.slice(anchor));
+      const at = rest ? anchor + rest[0].length : anchor;
+      edits.push([at, at, `${this.eol}${indent}${JSON.stringify(key)}: ${this.format(value, indent)}${hasComma ? ',' : ''}`]);
+    }
+    this.edit(edits);
+  }
+
+  /**
+   * Remove a property, with its line when it has one of its own
+   * Returns false when there was nothing to remove
+   */
+  delete(path: string[]): boolean {
+    if (path.length === 0) {
+      return false;
+    }
+    const parent = this.findNode(path.slice(0, -1));
+    const properties = parent?.properties;
+    const property = this.findProperty(parent, path[path.length - 1]);
+    if (!parent || !properties || !property) {
+      return false;
+    }
+
+    const index = properties.indexOf(property);
+    let start = property.start;
+    let end = property.value.end;
+    const edits: Array<[number, number, string]> = [];
+
+    const after = this.nextToken(end);
+    const trailingComma = this.text[after] === ',';
+    if (trailingComma) {
+      end = after + 1;
+    }
+    // The last property without a trailing comma: the comma before it goes instead
+    const previousComma = !trailingComma && index > 0 ? this.nextToken(properties[index - 1].value.end) : -1;
+
+    const ownLine = !this.text.slice(this.lineStart(start), start).trim();
+    const rest = /^[ \t]*(?:\/\/[^\r\n]*)?(\r?\n|$)/.exec(this.text.slice(end));
+    if (ownLine && rest) {
+      start = this.lineStart(start);
+      end += rest[0].length;
+      if (previousComma !== -1) {
+        edits.push([previousComma, previousComma + 1, '']);
+      }
+    } else if (previousComma !== -1) {
+      start = previousComma;
+    } else {
+      end += /^[ \t]*/.exec(this.text.slice(end))![0].length;
+    }
+    edits.push([start, end, '']);
+    this.edit(edits);
+
+    // An object left with nothing but whitespace is written as {}
+    const emptied = this.findNode(path.slice(0, -1));
+    if (emptied?.properties?.length === 0 && !this.text.slice(emptied.start + 1, emptied.end - 1).trim()) {
+      this.edit([[emptied.start + 1, emptied.end - 1, '']]);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,186 @@
+import { readFile, writeFile, rename, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { createHash } from 'crypto';
+import { USER_SKILLS_DIR } from './utils.js';
+import { SkillFile } from './install.js';
+import { readLocalTree, resolveSource, ResolvedSource, SourceKind, SourceSkill } from './sources.js';
+
+export const SKILLS_LOCK_FILE = join(dirname(USER_SKILLS_DIR), 'skills.lock.json');
+
+const LOCKFILE_VERSION = 1;
+
+/**
+ * Where an installed skill came from and what was installed
+ * - source: spec passed to `add` (local paths made absolute), resolved again by `update`
+ * - path: the skill's directory inside the source ('' for the source root)
+ * - ref / commit: requested ref and the commit it resolved to (git and GitHub sources)
+ * - hash: content hash of the installed files, see hashSkillFiles
+ */
+export interface LockEntry {
+  source: string;
+  kind: SourceKind;
+  path: string;
+  ref?: string;
+  commit?: string;
+  hash: string;
+  installedAt: string;
+}
+
+export interface Lockfile {
+  version: number;
+  skills: Record<string, LockEntry>;
+}
+
+/**
+ * Read ~/.ai-skills-hub/skills.lock.json, an empty lockfile when it doesn't exist yet
+ */
+export async function readLockfile(): Promise<Lockfile> {
+  if (!existsSync(SKILLS_LOCK_FILE)) {
+    return { version: LOCKFILE_VERSION, skills: {} };
+  }
+
+  let parsed: Lockfile;
+  try {
+    parsed = JSON.parse(await readFile(SKILLS_LOCK_FILE, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read ${SKILLS_LOCK_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || typeof parsed.skills !== 'object' || parsed.skills === null) {
+    throw new Error(`Invalid lockfile ${SKILLS_LOCK_FILE}: missing "skills"`);
+  }
+  return parsed;
+}
+
+/**
+ * Write the lockfile (skills sorted by name, written to a temp file first)
+ */
+export async function writeLockfile(lockfile: Lockfile): Promise<void> {
+  const skills: Record<string, LockEntry> = {};
+  for (const name of Object.keys(lockfile.skills).sort()) {
+    skills[name] = lockfile.skills[name];
+  }
+
+  await mkdir(dirname(SKILLS_LOCK_FILE), { recursive: true });
+  const tmpFile = `${SKILLS_LOCK_FILE}.tmp`;
+  await writeFile(tmpFile, JSON.stringify({ version: LOCKFILE_VERSION, skills }, null, 2) + '\n', 'utf-8');
+  await rename(tmpFile, SKILLS_LOCK_FILE);
+}
+
+/**
+ * Record (or replace) the lock entries of skills installed from one source
+ */
+export async function recordInstalledSkills(source: ResolvedSource, skills: SourceSkill[]): Promise<void> {
+  const lockfile = await readLockfile();
+  const installedAt = new Date().toISOString();
+  for (const skill of skills) {
+    lockfile.skills[skill.name] = {
+      source: source.source,
+      kind: source.kind,
+      path: skill.path,
+      ...(source.ref ? { ref: source.ref } : {}),
+      ...(source.commit ? { commit: source.commit } : {}),
+      hash: hashSkillFiles(skill.files),
+      installedAt,
+    };
+  }
+  await writeLockfile(lockfile);
+}
+
+/**
+ * Content hash of a skill: paths, modes and contents of all files, independent of their order
+ */
+export function hashSkillFiles(files: SkillFile[]): string {
+  const hash = createHash('sha256');
+  for (const file of [...files].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))) {
+    const contentHash = createHash('sha256').update(file.content).digest('hex');
+    hash.update(`${file.path}\0${(file.mode & 0o777).toString(8)}\0${contentHash}\n`);
+  }
+  return `sha256-${hash.digest('hex')}`;
+}
+
+/**
+ * Read the files of an installed skill the way `add` wrote them, null when it is not installed
+ */
+export async function readInstalledSkill(name: string): Promise<SkillFile[] | null> {
+  const skillDir = join(USER_SKILLS_DIR, name);
+  if (!existsSync(skillDir)) {
+    return null;
+  }
+  return (await readLocalTree(skillDir)).files;
+}
+
+/**
+ * State of an installed skill compared with its lock entry and its source
+ * - modified: the installed files no longer match the hash recorded at install time
+ * - outdated: the source now has different content than what was installed
+ */
+export interface SkillUpdateStatus {
+  name: string;
+  entry: LockEntry;
+  installed: SkillFile[] | null;
+  modified: boolean;
+  upstream?: SourceSkill;
+  upstreamSource?: ResolvedSource;
+  outdated: boolean;
+  error?: string;
+}
+
+/**
+ * Compare locked skills (all of them, or the given names) with their installed files and their sources
+ * Each source is resolved once, however many skills came from it
+ */
+export async function checkSkillUpdates(lockfile: Lockfile, names?: string[]): Promise<SkillUpdateStatus[]> {
+  const sources = new Map<string, Promise<ResolvedSource>>();
+  const results: SkillUpdateStatus[] = [];
+
+  for (const name of names ?? Object.keys(lockfile.skills).sort()) {
+    const entry = lockfile.skills[name];
+    const installed = await readInstalledSkill(name);
+    const status: SkillUpdateStatus = {
+      name,
+      entry,
+      installed,
+      modified: installed !== null && hashSkillFiles(installed) !== entry.hash,
+      outdated: false,
+    };
+    results.push(status);
+
+    if (!sources.has(entry.source)) {
+      sources.set(entry.source, resolveSource(entry.source));
+    }
+    try {
+      const resolved = await sources.get(entry.source)!;
+      const upstream = resolved.skills.find(skill => skill.path === entry.path);
+      if (!upstream) {
+        status.error = `no longer found in ${resolved.description}`;
+        continue;
+      }
+      status.upstream = upstream;
+      status.upstreamSource = resolved;
+      status.outdated = hashSkillFiles(upstream.files) !== entry.hash;
+    } catch (error) {
+      status.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Drop the lock entries of removed skills, returns the entries that were dropped
+ */
+export async function removeLockEntries(names: string[]): Promise<Record<string, LockEntry>> {
+  const lockfile = await readLockfile();
+  const removed: Record<string, LockEntry> = {};
+  for (const name of names) {
+    if (lockfile.skills[name]) {
+      removed[name] = lockfile.skills[name];
+      delete lockfile.skills[name];
+    }
+  }
+  if (Object.keys(removed).length > 0) {
+    await writeLockfile(lockfile);
+  }
+  return removed;
+}
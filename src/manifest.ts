@@ -0,0 +1,379 @@
+import { parse as parseYaml } from 'yaml';
+
+/**
+ * Typed representation of a SKILL.md YAML frontmatter block
+ * Known keys are validated and normalized, unknown keys are kept in `extra`
+ */
+export interface SkillManifest {
+  name?: string;
+  description?: string;
+  version?: string;
+  tags: string[];
+  when_to_use?: string;
+  owners: string[];
+  arguments: SkillArgument[];
+  execution?: ExecutionPolicy;
+  extra: Record<string, unknown>;
+}
+
+export const ARGUMENT_TYPES = ['string', 'number', 'integer', 'boolean'] as const;
+export type ArgumentType = typeof ARGUMENT_TYPES[number];
+export type ArgumentValue = string | number | boolean;
+
+/**
+ * Argument declared in the `arguments` frontmatter key
+ * Becomes a property of the tool's inputSchema and an argument of the skill's MCP prompt
+ */
+export interface SkillArgument {
+  name: string;
+  type: ArgumentType;
+  description?: string;
+  required: boolean;
+  enum?: ArgumentValue[];
+  default?: ArgumentValue;
+}
+
+/**
+ * Script execution policy declared in the `execution` frontmatter key
+ * (also used for the `scriptPolicy` override in settings.json)
+ * - env: extra environment variables passed to scripts, on top of a minimal base set
+ * - timeout: seconds before the script is killed
+ * - max_output: bytes kept per output stream
+ * - network / write_outside_skill_dir: false runs the script in an OS sandbox
+ * - cwd: working directory, relative to the skill directory, or `project` for the server's directory
+ */
+export interface ExecutionPolicy {
+  env?: string[];
+  timeout?: number;
+  max_output?: number;
+  network?: boolean;
+  write_outside_skill_dir?: boolean;
+  cwd?: string;
+}
+
+/**
+ * Result of parsing a skill (or resource) Markdown file
+ * - manifest: validated frontmatter
+ * - body: Markdown content without the frontmatter block
+ * - hasFrontmatter: whether the file started with a frontmatter block
+ * - errors: schema or syntax errors found in the frontmatter (never thrown)
+ */
+export interface ParsedSkill {
+  manifest: SkillManifest;
+  body: string;
+  hasFrontmatter: boolean;
+  errors: string[];
+}
+
+/**
+ * Split raw Markdown content into frontmatter source and body
+ * Frontmatter must be the first non-empty block, delimited by `---` lines
+ * Returns null frontmatter when the file has none (or the block is never closed)
+ */
+export function splitFrontmatter(content: string): { frontmatter: string | null; body: string } {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const startIdx = lines.findIndex(line => line.trim());
+
+  if (startIdx < 0 || lines[startIdx].trim() !== '---') {
+    return { frontmatter: null, body: content };
+  }
+
+  for (let i = startIdx + 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '---' || line === '...') {
+      return {
+        frontmatter: lines.slice(startIdx + 1, i).join('\n'),
+        body: lines.slice(i + 1).join('\n'),
+      };
+    }
+  }
+
+  // Unterminated frontmatter, treat whole file as body
+  return { frontmatter: null, body: content };
+}
+
+/**
+ * Parse a skill file into a typed manifest and its Markdown body
+ * Never throws: YAML syntax errors and schema violations are collected in `errors`
+ */
+export function parseSkillFile(content: string): ParsedSkill {
+  const { frontmatter, body } = splitFrontmatter(content);
+  const errors: string[] = [];
+
+  if (frontmatter === null) {
+    return { manifest: emptyManifest(), body, hasFrontmatter: false, errors };
+  }
+
+  let data: unknown;
+  try {
+    data = parseYaml(frontmatter);
+  } catch (error) {
+    errors.push(`Invalid YAML frontmatter: ${error instanceof Error ? error.message : String(error)}`);
+    return { manifest: emptyManifest(), body, hasFrontmatter: true, errors };
+  }
+
+  // Empty frontmatter block
+  if (data === null || data === undefined) {
+    return { manifest: emptyManifest(), body, hasFrontmatter: true, errors };
+  }
+
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    errors.push('Frontmatter must be a mapping of key: value pairs');
+    return { manifest: emptyManifest(), body, hasFrontmatter: true, errors };
+  }
+
+  const manifest = validateManifest(data as Record<string, unknown>, errors);
+  return { manifest, body, hasFrontmatter: true, errors };
+}
+
+function emptyManifest(): SkillManifest {
+  return { tags: [], owners: [], arguments: [], extra: {} };
+}
+
+/**
+ * Validate known frontmatter keys and normalize them into a SkillManifest
+ * Invalid values are dropped and reported, so a single bad key doesn't hide the skill
+ */
+function validateManifest(data: Record<string, unknown>, errors: string[]): SkillManifest {
+  const manifest = emptyManifest();
+
+  for (const [key, value] of Object.entries(data)) {
+    switch (key) {
+      case 'name':
+      case 'description':
+      case 'when_to_use': {
+        const str = readString(key, value, errors);
+        if (str !== undefined) {
+          manifest[key] = str;
+        }
+        break;
+      }
+      case 'version': {
+        // Allow unquoted numeric versions like `version: 1.2`
+        if (typeof value === 'number') {
+          manifest.version = String(value);
+        } else {
+          const str = readString(key, value, errors);
+          if (str !== undefined) {
+            manifest.version = str;
+          }
+        }
+        break;
+      }
+      case 'tags':
+      case 'owners': {
+        const list = readStringList(key, value, errors);
+        if (list) {
+          manifest[key] = list;
+        }
+        break;
+      }
+      case 'arguments': {
+        const args = readArguments(value, errors);
+        if (args) {
+          manifest.arguments = args;
+        }
+        break;
+      }
+      case 'execution': {
+        const policy = parseExecutionPolicy(value, errors, key);
+        if (policy) {
+          manifest.execution = policy;
+        }
+        break;
+      }
+      default:
+        manifest.extra[key] = value;
+    }
+  }
+
+  return manifest;
+}
+
+function readString(key: string, value: unknown, errors: string[]): string | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    errors.push(`"${key}" must be a string`);
+    return undefined;
+  }
+  const trimmed = value.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+/**
+ * Accepts either a YAML list or a comma-separated string
+ * Example: `tags: [go, testing]` or `tags: go, testing`
+ */
+function readStringList(key: string, value: unknown, errors: string[]): string[] | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+  if (Array.isArray(value) && value.every(item => typeof item === 'string' || typeof item === 'number')) {
+    return value.map(item => String(item).trim()).filter(Boolean);
+  }
+  errors.push(`"${key}" must be a list of strings`);
+  return undefined;
+}
+
+const ARGUMENT_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/**
+ * Accepts either a list (names or argument objects) or a mapping of name to description (or object)
+ * Example: `arguments: [{ name: branch, required: true }]` or `arguments: { branch: Target branch }`
+ */
+function readArguments(value: unknown, errors: string[]): SkillArgument[] | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+
+  let entries: Array<[unknown, unknown]>;
+  if (Array.isArray(value)) {
+    // List items are either bare names or objects with a `name` key
+    entries = value.map(item => (
+      item && typeof item === 'object' ? [(item as Record<string, unknown>).name, item] : [item, null]
+    ));
+  } else if (typeof value === 'object') {
+    entries = Object.entries(value as Record<string, unknown>);
+  } else {
+    errors.push('"arguments" must be a list or a mapping of argument definitions');
+    return undefined;
+  }
+
+  const args: SkillArgument[] = [];
+  for (const [name, definition] of entries) {
+    if (typeof name !== 'string' || !ARGUMENT_NAME_PATTERN.test(name)) {
+      errors.push(`"arguments" entry has an invalid name: ${JSON.stringify(name)}`);
+      continue;
+    }
+    if (args.some(arg => arg.name === name)) {
+      errors.push(`"arguments" declares "${name}" more than once`);
+      continue;
+    }
+
+    const arg: SkillArgument = { name, type: 'string', required: false };
+    if (typeof definition === 'string') {
+      arg.description = definition.trim() || undefined;
+    } else if (definition && typeof definition === 'object') {
+      const fields = definition as Record<string, unknown>;
+      arg.description = readString(`arguments.${name}.description`, fields.description, errors);
+      if (fields.type !== undefined) {
+        if (ARGUMENT_TYPES.includes(fields.type as ArgumentType)) {
+          arg.type = fields.type as ArgumentType;
+        } else {
+          errors.push(`"arguments.${name}.type" must be one of ${ARGUMENT_TYPES.join(', ')}`);
+        }
+      }
+      if (fields.required !== undefined) {
+        if (typeof fields.required === 'boolean') {
+          arg.required = fields.required;
+        } else {
+          errors.push(`"arguments.${name}.required" must be true or false`);
+        }
+      }
+      if (fields.enum !== undefined) {
+        if (Array.isArray(fields.enum) && fields.enum.length > 0 && fields.enum.every(item => matchesArgumentType(item, arg.type))) {
+          arg.enum = fields.enum as ArgumentValue[];
+        } else {
+          errors.push(`"arguments.${name}.enum" must be a non-empty list of ${arg.type} values`);
+        }
+      }
+      if (fields.default !== undefined && fields.default !== null) {
+        if (!matchesArgumentType(fields.default, arg.type)) {
+          errors.push(`"arguments.${name}.default" must be a ${arg.type}`);
+        } else if (arg.enum && !arg.enum.includes(fields.default as ArgumentValue)) {
+          errors.push(`"arguments.${name}.default" must be one of its enum values`);
+        } else {
+          arg.default = fields.default as ArgumentValue;
+        }
+      }
+    } else if (definition !== null && definition !== undefined) {
+      errors.push(`"arguments.${name}" must be a description or a mapping`);
+      continue;
+    }
+    args.push(arg);
+  }
+
+  return args;
+}
+
+/**
+ * Check a value against a declared argument type (integers also satisfy `number`)
+ */
+export function matchesArgumentType(value: unknown, type: ArgumentType): value is ArgumentValue {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+  }
+}
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Validate an execution policy mapping, invalid fields are dropped and reported
+ * `key` is the name used in error messages (`execution` in frontmatter, `scriptPolicy` in settings)
+ */
+export function parseExecutionPolicy(value: unknown, errors: string[], key = 'execution'): ExecutionPolicy | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`"${key}" must be a mapping`);
+    return undefined;
+  }
+
+  const policy: ExecutionPolicy = {};
+  for (const [field, fieldValue] of Object.entries(value as Record<string, unknown>)) {
+    switch (field) {
+      case 'env': {
+        const names = readStringList(`${key}.env`, fieldValue, errors);
+        const invalid = names?.filter(name => !ENV_NAME_PATTERN.test(name)) || [];
+        if (invalid.length > 0) {
+          errors.push(`"${key}.env" has invalid variable names: ${invalid.join(', ')}`);
+        } else if (names) {
+          policy.env = names;
+        }
+        break;
+      }
+      case 'timeout':
+      case 'max_output': {
+        if (typeof fieldValue === 'number' && Number.isFinite(fieldValue) && fieldValue > 0) {
+          policy[field] = fieldValue;
+        } else {
+          errors.push(`"${key}.${field}" must be a positive number`);
+        }
+        break;
+      }
+      case 'network':
+      case 'write_outside_skill_dir': {
+        if (typeof fieldValue === 'boolean') {
+          policy[field] = fieldValue;
+        } else {
+          errors.push(`"${key}.${field}" must be true or false`);
+        }
+        break;
+      }
+      case 'cwd': {
+        const cwd = readString(`${key}.cwd`, fieldValue, errors);
+        if (cwd !== undefined) {
+          policy.cwd = cwd;
+        }
+        break;
+      }
+      default:
+        errors.push(`"${key}" has unknown field "${field}"`);
+    }
+  }
+
+  return policy;
+}
@@ -0,0 +1,92 @@
+import { open } from 'fs/promises';
+import { extname } from 'path';
+
+// MIME types of the file kinds skills commonly ship
+const MIME_TYPES: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.ts': 'text/x-typescript',
+  '.tsx': 'text/x-typescript',
+  '.py': 'text/x-python',
+  '.go': 'text/x-go',
+  '.rb': 'text/x-ruby',
+  '.java': 'text/x-java',
+  '.rs': 'text/x-rust',
+  '.sh': 'text/x-shellscript',
+  '.bash': 'text/x-shellscript',
+  '.json': 'application/json',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.toml': 'application/toml',
+  '.xml': 'application/xml',
+  '.sql': 'application/sql',
+  '.graphql': 'application/graphql',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+};
+
+// Non-text/* types that are still served as text
+const TEXT_MIME_TYPES = new Set([
+  'application/json',
+  'application/yaml',
+  'application/toml',
+  'application/xml',
+  'application/sql',
+  'application/graphql',
+  'image/svg+xml',
+]);
+
+const SNIFF_BYTES = 1024;
+
+/**
+ * Detect the MIME type of a file from its extension
+ * Unknown extensions are sniffed: text/plain unless the first bytes contain a NUL byte
+ */
+export async function detectMimeType(filePath: string): Promise<string> {
+  const known = MIME_TYPES[extname(filePath).toLowerCase()];
+  if (known) {
+    return known;
+  }
+
+  const handle = await open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    return sniffMimeType(buffer.subarray(0, bytesRead));
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Same as detectMimeType, for a file whose content has already been read
+ */
+export function detectMimeTypeOfContent(filePath: string, content: Buffer): string {
+  return MIME_TYPES[extname(filePath).toLowerCase()] ?? sniffMimeType(content.subarray(0, SNIFF_BYTES));
+}
+
+function sniffMimeType(head: Buffer): string {
+  return head.includes(0) ? 'application/octet-stream' : 'text/plain';
+}
+
+/**
+ * Whether contents of this MIME type are returned as `text` (otherwise as a base64 `blob`)
+ */
+export function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || TEXT_MIME_TYPES.has(mimeType);
+}
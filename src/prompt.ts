@@ -0,0 +1,60 @@
+import { createInterface } from 'readline/promises';
+
+/**
+ * Whether the CLI can ask the user questions (stdin and stdout are terminals)
+ */
+export function isInteractive(): boolean {
+  return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+}
+
+/**
+ * Ask a yes/no question on the terminal, anything but y/yes counts as no
+ */
+export async function confirm(question: string): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question(`${question} [y/N] `);
+    return ['y', 'yes'].includes(answer.trim().toLowerCase());
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Ask the user to pick items from a numbered list
+ * Accepts comma/space separated numbers and ranges ("1,3-4") or "all", an empty answer picks nothing
+ * Returns the picked indexes in list order
+ */
+export async function selectItems(question: string, items: string[]): Promise<number[]> {
+  items.forEach((item, idx) => console.log(`  ${String(idx + 1).padStart(String(items.length).length)}) ${item}`));
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    while (true) {
+      const answer = (await rl.question(`${question} (e.g. 1,3-4 or all): `)).trim().toLowerCase();
+      if (answer === 'all') {
+        return items.map((_, idx) => idx);
+      }
+
+      const picked = new Set<number>();
+      let valid = true;
+      for (const part of answer.split(/[\s,]+/).filter(Boolean)) {
+        const match = part.match(/^(\d+)(?:-(\d+))?$/);
+        const from = match ? Number(match[1]) : NaN;
+        const to = match?.[2] ? Number(match[2]) : from;
+        if (!match || from < 1 || to > items.length || from > to) {
+          valid = false;
+          break;
+        }
+        for (let n = from; n <= to; n++) picked.add(n - 1);
+      }
+
+      if (valid) {
+        return Array.from(picked).sort((a, b) => a - b);
+      }
+      console.log(`Please enter numbers between 1 and ${items.length}`);
+    }
+  } finally {
+    rl.close();
+  }
+}
@@ -0,0 +1,279 @@
+import { stat } from 'fs/promises';
+import { join, dirname } from 'path';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import {
+  scanSkillLocations,
+  resolveSkillPath,
+  assignSkillToolNames,
+  loadSkill,
+  listSkillResourceFiles,
+  readResourceInfo,
+  getFileAccessOptions,
+  ResourceInfo,
+  SkillLocation,
+  SkillRoot,
+} from './utils.js';
+import { SkillManifest } from './manifest.js';
+import { resolveContainedPath, FileAccessOptions } from './skillfs.js';
+
+/**
+ * Cached skill metadata (content is not cached, call_tool always reads the file fresh)
+ */
+export interface SkillEntry {
+  path: string;
+  root: SkillRoot;
+  dir: string;
+  shadowed: SkillRoot[];
+  toolName: string;
+  conflicts: string[];
+  description: string;
+  manifest: SkillManifest;
+  errors: string[];
+}
+
+/**
+ * Resource listed by resources/list
+ */
+export interface ResourceEntry {
+  uri: string;
+  path: string;
+  description: string;
+  mimeType: string;
+}
+
+export { SEARCH_TOOL_NAME, RUN_SCRIPT_TOOL_NAME, READ_SECTION_TOOL_NAME, BUILT_IN_TOOL_NAMES } from './utils.js';
+
+/**
+ * Cached value of a file, valid while the file's mtime and size are unchanged
+ */
+export interface CacheEntry<T> {
+  mtimeMs: number;
+  size: number;
+  value: T;
+}
+
+/**
+ * In-memory registry of skill and resource metadata
+ * Entries are keyed by absolute path and invalidated when the file's mtime or size changes,
+ * so a rescan only re-parses files that were actually edited
+ */
+export class SkillRegistry {
+  private skills = new Map<string, CacheEntry<SkillEntry>>();
+  private resources = new Map<string, CacheEntry<ResourceInfo>>();
+  private toolIndex = new Map<string, string>();
+
+  /**
+   * List all skills, re-parsing only files whose mtime changed since the last call
+   */
+  async listSkills(): Promise<SkillEntry[]> {
+    const locations = await scanSkillLocations();
+    const entries = await Promise.all(locations.map(location => this.getSkill(location)));
+
+    // Drop cache entries of removed or newly shadowed skills
+    const present = new Set(locations.map(location => location.absPath));
+    for (const absPath of this.skills.keys()) {
+      if (!present.has(absPath)) {
+        this.skills.delete(absPath);
+      }
+    }
+
+    const skills = entries.filter((entry): entry is SkillEntry => entry !== null);
+
+    // Tool names depend on the whole set of skills (collisions), assign them after every scan
+    const assignments = await assignSkillToolNames(locations);
+    this.toolIndex = new Map();
+    for (const skill of skills) {
+      const assignment = assignments.get(skill.path)!;
+      skill.toolName = assignment.toolName;
+      skill.conflicts = assignment.conflicts;
+      this.toolIndex.set(skill.toolName, skill.path);
+    }
+
+    return skills;
+  }
+
+  /**
+   * Find a skill by tool name without rescanning the tree when the cached path is still valid
+   */
+  async findByToolName(toolName: string): Promise<SkillEntry | null> {
+    const cachedPath = this.toolIndex.get(toolName);
+    if (cachedPath) {
+      // Re-resolve in case a higher-precedence root now shadows the cached skill
+      const resolved = await resolveSkillPath(cachedPath);
+      const cached = resolved ? this.skills.get(resolved.absPath) : undefined;
+      if (resolved && cached) {
+        const { root, shadowed } = cached.value;
+        const entry = await this.getSkill({ path: cachedPath, root, absPath: resolved.absPath, shadowed });
+        if (entry && entry.toolName === toolName) {
+          return entry;
+        }
+      }
+    }
+
+    // Unknown or stale tool name, rescan once to pick up new skills
+    const skills = await this.listSkills();
+    return skills.find(skill => skill.path === this.toolIndex.get(toolName)) || null;
+  }
+
+  /**
+   * Find a skill by its prompt name (see toPromptName)
+   */
+  async findByPromptName(promptName: string): Promise<SkillEntry | null> {
+    return this.findByToolName(promptName.replace(/-/g, '_'));
+  }
+
+  /**
+   * Get resource index (filename and description) of a single skill
+   */
+  async getSkillResources(skill: SkillEntry): Promise<ResourceInfo[]> {
+    const resourcesDir = join(skill.dir, 'resources');
+    const filenames = await listSkillResourceFiles(resourcesDir);
+    const options = await getFileAccessOptions();
+    const skillName = skill.path.replace(/\/?SKILL\.md$/, '');
+    const entries = await Promise.all(filenames.map(async (filename) => {
+      // Resources are read through the file access layer, files it rejects are not listed
+      const relPath = skillName ? `${skillName}/resources/${filename}` : `resources/${filename}`;
+      const filePath = await resolveContainedPath(skill.root.dir, relPath, options).catch((error) => {
+        console.error(`Skipping resource ${relPath}: ${error instanceof Error ? error.message : String(error)}`);
+        return null;
+      });
+      return filePath ? this.getResource(filePath, skill.root.dir, relPath, filename, options) : null;
+    }));
+    return entries.filter((entry): entry is ResourceInfo => entry !== null);
+  }
+
+  /**
+   * List every SKILL.md and every file under resources/ (including subdirectories) as MCP resources
+   */
+  async listResources(): Promise<ResourceEntry[]> {
+    const skills = await this.listSkills();
+
+    const perSkill = await Promise.all(skills.map(async (skill) => {
+      const skillName = skill.path.replace(/\/SKILL\.md$/, '');
+      const entries: ResourceEntry[] = [{
+        uri: `skill://${skillName}/SKILL.md`,
+        path: skill.path,
+        description: skill.description,
+        mimeType: 'text/markdown',
+      }];
+
+      for (const resource of await this.getSkillResources(skill)) {
+        entries.push({
+          uri: `skill://${skillName}/resources/${resource.filename}`,
+          path: skill.path.replace(/SKILL\.md$/, `resources/${resource.filename}`),
+          description: resource.description,
+          mimeType: resource.mimeType,
+        });
+      }
+      return entries;
+    }));
+
+    return perSkill.flat();
+  }
+
+  private async getSkill(location: SkillLocation): Promise<SkillEntry | null> {
+    const { path, root, absPath, shadowed } = location;
+    const stats = await stat(absPath).catch(() => null);
+    if (!stats) {
+      this.skills.delete(absPath);
+      return null;
+    }
+
+    const cached = this.skills.get(absPath);
+    if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+      // Shadowing can change without the file itself changing
+      cached.value.shadowed = shadowed;
+      return cached.value;
+    }
+
+    try {
+      const skill = await loadSkill(path);
+      for (const issue of skill.errors) {
+        console.error(`Invalid frontmatter in ${path}: ${issue}`);
+      }
+
+      const entry: SkillEntry = {
+        path,
+        root,
+        dir: dirname(absPath),
+        shadowed,
+        // Tool names are assigned from the paths of all skills in listSkills, an edit keeps the assigned name
+        toolName: cached?.value.toolName ?? skill.toolName,
+        conflicts: cached?.value.conflicts ?? [],
+        description: skill.description,
+        manifest: skill.manifest,
+        errors: skill.errors,
+      };
+      this.skills.set(absPath, { mtimeMs: stats.mtimeMs, size: stats.size, value: entry });
+      return entry;
+    } catch (error) {
+      console.error(`Error processing skill file ${path}:`, error);
+      return null;
+    }
+  }
+
+  private async getResource(
+    filePath: string,
+    rootDir: string,
+    relPath: string,
+    filename: string,
+    options: FileAccessOptions
+  ): Promise<ResourceInfo | null> {
+    const stats = await stat(filePath).catch(() => null);
+    if (!stats) {
+      this.resources.delete(filePath);
+      return null;
+    }
+
+    const cached = this.resources.get(filePath);
+    if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+      return cached.value;
+    }
+
+    try {
+      // Read through the file access layer again, so the size cap applies to changed files too
+      const entry = await readResourceInfo(rootDir, relPath, filename, options);
+      this.resources.set(filePath, { mtimeMs: stats.mtimeMs, size: stats.size, value: entry });
+      return entry;
+    } catch (error) {
+      console.error(`Error reading resource file ${filename}:`, error);
+      return null;
+    }
+  }
+}
+
+/**
+ * Prompt name of a skill, shown by clients as a slash command (e.g. `create_pr` -> `/create-pr`)
+ * Tool names never contain hyphens, so the mapping is reversible
+ */
+export function toPromptName(toolName: string): string {
+  return toolName.replace(/_/g, '-');
+}
+
+// Shared registry, used by every server instance in this process
+export const skillRegistry = new SkillRegistry();
+
+// Default page size for tools/list and resources/list
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Slice a list into a page using an opaque cursor (base64url-encoded offset)
+ * Throws InvalidParams for malformed cursors
+ */
+export function paginate<T>(items: T[], cursor: string | undefined, pageSize = DEFAULT_PAGE_SIZE): { page: T[]; nextCursor?: string } {
+  let offset = 0;
+  if (cursor) {
+    offset = Number(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+    }
+  }
+
+  const page = items.slice(offset, offset + pageSize);
+  const nextOffset = offset + pageSize;
+  const nextCursor = nextOffset < items.length
+    ? Buffer.from(String(nextOffset), 'utf-8').toString('base64url')
+    : undefined;
+
+  return { page, nextCursor };
+}
@@ -0,0 +1,160 @@
+import { existsSync, realpathSync } from 'fs';
+import { join, resolve, relative, isAbsolute, delimiter, sep } from 'path';
+import { tmpdir } from 'os';
+import { ExecutionPolicy } from './manifest.js';
+
+// Defaults for skills that don't declare an execution policy
+export const DEFAULT_SCRIPT_TIMEOUT_SECONDS = 60;
+export const DEFAULT_SCRIPT_MAX_OUTPUT_BYTES = 256 * 1024;
+
+// Variables every script gets (when set), the policy's `env` adds to these
+const BASE_ENV = ['PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'LANG', 'LC_ALL', 'LC_CTYPE', 'TERM', 'TMPDIR', 'TZ'];
+
+// Special `cwd` value: the directory the server was started in
+const PROJECT_CWD = 'project';
+
+/**
+ * Policy actually applied to a script run, after merging the skill's policy with the user's override
+ */
+export interface EffectiveExecutionPolicy {
+  env: string[];
+  timeoutMs: number;
+  maxOutputBytes: number;
+  network: boolean;
+  writeOutsideSkillDir: boolean;
+  cwd: string;
+}
+
+/**
+ * Merge a skill's execution policy with the user's `scriptPolicy` override
+ * The override can only tighten: lower limits win, a disallowed capability stays disallowed,
+ * and extra env vars must be allowed by both
+ * Throws when `cwd` points outside the skill directory
+ */
+export function resolveExecutionPolicy(
+  skillDir: string,
+  skillPolicy: ExecutionPolicy = {},
+  userPolicy: ExecutionPolicy = {}
+): EffectiveExecutionPolicy {
+  let extraEnv = skillPolicy.env || [];
+  if (userPolicy.env) {
+    extraEnv = extraEnv.filter(name => userPolicy.env!.includes(name));
+  }
+
+  const timeout = Math.min(
+    skillPolicy.timeout ?? DEFAULT_SCRIPT_TIMEOUT_SECONDS,
+    userPolicy.timeout ?? Infinity
+  );
+  const maxOutput = Math.min(
+    skillPolicy.max_output ?? DEFAULT_SCRIPT_MAX_OUTPUT_BYTES,
+    userPolicy.max_output ?? Infinity
+  );
+
+  return {
+    env: Array.from(new Set([...BASE_ENV, ...extraEnv])),
+    timeoutMs: Math.round(timeout * 1000),
+    maxOutputBytes: Math.floor(maxOutput),
+    network: (skillPolicy.network ?? true) && (userPolicy.network ?? true),
+    writeOutsideSkillDir: (skillPolicy.write_outside_skill_dir ?? true) && (userPolicy.write_outside_skill_dir ?? true),
+    cwd: resolveCwd(skillDir, skillPolicy.cwd),
+  };
+}
+
+function resolveCwd(skillDir: string, cwd: string | undefined): string {
+  if (!cwd) {
+    return skillDir;
+  }
+  if (cwd === PROJECT_CWD) {
+    return process.cwd();
+  }
+
+  const resolved = resolve(skillDir, cwd);
+  const rel = relative(skillDir, resolved);
+  if (rel === '..' || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    throw new Error(`Execution policy cwd must be inside the skill directory: ${cwd}`);
+  }
+  return resolved;
+}
+
+/**
+ * Build the environment passed to a script: only allowed variables, plus SKILL_DIR
+ */
+export function buildScriptEnv(policy: EffectiveExecutionPolicy, skillDir: string): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const name of policy.env) {
+    if (process.env[name] !== undefined) {
+      env[name] = process.env[name];
+    }
+  }
+  env.SKILL_DIR = skillDir;
+  return env;
+}
+
+/**
+ * Wrap a command so network access and writes outside the skill directory are blocked
+ * as the policy requires: bubblewrap on Linux, sandbox-exec on macOS
+ * Returns the command unchanged when the policy needs no sandbox
+ * Throws when it does but no sandbox is available, the script is never run unrestricted
+ */
+export function sandboxCommand(
+  policy: EffectiveExecutionPolicy,
+  skillDir: string,
+  command: string,
+  args: string[]
+): { command: string; args: string[] } {
+  if (policy.network && policy.writeOutsideSkillDir) {
+    return { command, args };
+  }
+
+  const restrictions = [
+    !policy.network && 'no network access',
+    !policy.writeOutsideSkillDir && 'no writes outside the skill directory',
+  ].filter(Boolean).join(' and ');
+
+  if (process.platform === 'linux') {
+    const bwrap = findExecutable('bwrap');
+    if (!bwrap) {
+      throw new Error(`Execution policy requires ${restrictions}, but bubblewrap (bwrap) is not installed`);
+    }
+
+    const sandboxArgs = ['--die-with-parent'];
+    if (policy.writeOutsideSkillDir) {
+      sandboxArgs.push('--dev-bind', '/', '/');
+    } else {
+      // Read-only root with a private /tmp, only the skill directory stays writable
+      sandboxArgs.push('--ro-bind', '/', '/', '--dev', '/dev', '--proc', '/proc', '--tmpfs', '/tmp', '--bind', skillDir, skillDir);
+    }
+    if (!policy.network) {
+      sandboxArgs.push('--unshare-net');
+    }
+    sandboxArgs.push('--chdir', policy.cwd, '--', command, ...args);
+    return { command: bwrap, args: sandboxArgs };
+  }
+
+  if (process.platform === 'darwin' && existsSync('/usr/bin/sandbox-exec')) {
+    const rules = ['(version 1)', '(allow default)'];
+    if (!policy.network) {
+      rules.push('(deny network*)');
+    }
+    if (!policy.writeOutsideSkillDir) {
+      // Seatbelt matches resolved paths (/var is a symlink to /private/var)
+      const writable = [realpathSync(skillDir), realpathSync(tmpdir())];
+      rules.push(
+        '(deny file-write*)',
+        `(allow file-write* ${writable.map(dir => `(subpath ${JSON.stringify(dir)})`).join(' ')} (literal "/dev/null"))`
+      );
+    }
+    return { command: '/usr/bin/sandbox-exec', args: ['-p', rules.join('\n'), command, ...args] };
+  }
+
+  throw new Error(`Execution policy requires ${restrictions}, but no sandbox is available on ${process.platform}`);
+}
+
+function findExecutable(name: string): string | null {
+  for (const dir of (process.env.PATH || '').split(delimiter)) {
+    if (dir && existsSync(join(dir, name))) {
+      return join(dir, name);
+    }
+  }
+  return null;
+}
@@ -0,0 +1,278 @@
+import { stat } from 'fs/promises';
+import { join, basename } from 'path';
+import { readSkillFile } from './utils.js';
+import { splitFrontmatter } from './manifest.js';
+import { skillRegistry, CacheEntry } from './registry.js';
+import { parseSections } from './budget.js';
+
+/**
+ * Searchable unit: one heading section of a SKILL.md or resource file
+ */
+interface SearchDocument {
+  toolName: string;
+  path: string;
+  heading: string;
+  text: string;
+  termFreqs: Map<string, number>;
+  length: number;
+}
+
+/**
+ * All documents with the statistics BM25 needs, rebuilt only when a document changed
+ */
+interface Corpus {
+  documents: SearchDocument[];
+  avgLength: number;
+  docFreqs: Map<string, number>;
+}
+
+/**
+ * Single ranked search result
+ */
+export interface SearchHit {
+  toolName: string;
+  path: string;
+  heading: string;
+  snippet: string;
+  score: number;
+}
+
+// BM25 tuning parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Heading and manifest terms count more than body terms
+const TITLE_WEIGHT = 3;
+
+const SNIPPET_LENGTH = 160;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'with', 'you',
+]);
+
+/**
+ * Split text into lowercase search terms
+ * Latin text is split on non-alphanumeric characters, CJK runs are split into bigrams
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u);
+
+  for (const word of words) {
+    if (!word) continue;
+
+    if (/\p{Script=Han}|\p{Script=Hiragana}|\p{Script=Katakana}|\p{Script=Hangul}/u.test(word)) {
+      const chars = Array.from(word);
+      if (chars.length === 1) {
+        terms.push(word);
+      }
+      for (let i = 0; i < chars.length - 1; i++) {
+        terms.push(chars[i] + chars[i + 1]);
+      }
+      continue;
+    }
+
+    if (word.length < 2 || STOP_WORDS.has(word)) continue;
+    terms.push(word);
+  }
+
+  return terms;
+}
+
+/**
+ * Split Markdown body into searchable sections, with the same headings `read_skill_section` looks up
+ * Content before the first heading belongs to a section titled with `fallbackHeading`
+ */
+function searchSections(body: string, fallbackHeading: string): Array<{ heading: string; text: string }> {
+  return parseSections(body).map(section => ({
+    heading: section.level > 0 ? section.heading : fallbackHeading,
+    // The heading is indexed with title weight, leave its line out of the body text
+    text: section.level > 0 ? section.text.slice(section.text.indexOf('\n') + 1) : section.text,
+  }));
+}
+
+function buildDocument(toolName: string, path: string, heading: string, text: string, extraTitle = ''): SearchDocument {
+  const termFreqs = new Map<string, number>();
+  let length = 0;
+
+  const add = (terms: string[], weight: number) => {
+    for (const term of terms) {
+      termFreqs.set(term, (termFreqs.get(term) || 0) + weight);
+      length += weight;
+    }
+  };
+
+  add(tokenize(`${heading} ${extraTitle}`), TITLE_WEIGHT);
+  add(tokenize(text), 1);
+
+  return { toolName, path, heading, text, termFreqs, length };
+}
+
+function buildCorpus(documents: SearchDocument[]): Corpus {
+  const docFreqs = new Map<string, number>();
+  let totalLength = 0;
+  for (const doc of documents) {
+    totalLength += doc.length;
+    for (const term of doc.termFreqs.keys()) {
+      docFreqs.set(term, (docFreqs.get(term) || 0) + 1);
+    }
+  }
+  return { documents, avgLength: documents.length > 0 ? totalLength / documents.length : 0, docFreqs };
+}
+
+/**
+ * Search index over every SKILL.md and Markdown resource section
+ * Documents are cached per registry entry and file, and only rebuilt when the file's mtime or size
+ * changes (or the skill's tool name does), the corpus statistics only when a document changed
+ */
+class SearchIndex {
+  private files = new Map<string, CacheEntry<SearchDocument[]>>();
+  private corpus: Corpus | null = null;
+
+  async getCorpus(): Promise<Corpus> {
+    const skills = await skillRegistry.listSkills();
+    const present = new Set<string>();
+    let changed = false;
+
+    for (const skill of skills) {
+      const skillPath = skill.path;
+      const { manifest } = skill;
+      changed = await this.indexFile(`${skill.toolName}:${skillPath}`, join(skill.dir, basename(skillPath)), present, async () => {
+        const { body } = splitFrontmatter(await readSkillFile(skillPath));
+        const skillTitle = [
+          manifest.name,
+          skill.toolName,
+          skill.description,
+          manifest.when_to_use,
+          manifest.tags.join(' '),
+        ].filter(Boolean).join(' ');
+
+        // The first section carries the skill's manifest metadata
+        return searchSections(body, manifest.name || skill.toolName).map((section, idx) =>
+          buildDocument(skill.toolName, skillPath, section.heading, section.text, idx === 0 ? skillTitle : ''));
+      }) || changed;
+
+      const resources = await skillRegistry.getSkillResources(skill);
+      for (const resource of resources) {
+        if (resource.mimeType !== 'text/markdown') continue;
+        const resourcePath = skillPath.replace(/SKILL\.md$/, `resources/${resource.filename}`);
+        changed = await this.indexFile(`${skill.toolName}:${resourcePath}`, join(skill.dir, 'resources', resource.filename), present, async () => {
+          const { body } = splitFrontmatter(await readSkillFile(resourcePath));
+          const resourceName = resource.filename.replace(/\.md$/, '');
+          return searchSections(body, resourceName).map(section =>
+            buildDocument(skill.toolName, resourcePath, section.heading, section.text, resourceName));
+        }) || changed;
+      }
+    }
+
+    // Drop documents of removed files, renamed skills and resources that are no longer listed
+    for (const key of this.files.keys()) {
+      if (!present.has(key)) {
+        this.files.delete(key);
+        changed = true;
+      }
+    }
+
+    if (changed || !this.corpus) {
+      this.corpus = buildCorpus(Array.from(this.files.values()).flatMap(entry => entry.value));
+    }
+    return this.corpus;
+  }
+
+  /**
+   * Index one file unless its cached documents are still valid, returns true when they were rebuilt
+   * A file that fails to index has no documents until it changes again
+   */
+  private async indexFile(key: string, absPath: string, present: Set<string>, build: () => Promise<SearchDocument[]>): Promise<boolean> {
+    present.add(key);
+    const stats = await stat(absPath).catch(() => null);
+    const cached = this.files.get(key);
+    if (stats && cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+      return false;
+    }
+
+    let documents: SearchDocument[] = [];
+    try {
+      documents = await build();
+    } catch (error) {
+      console.error(`Error indexing ${key.slice(key.indexOf(':') + 1)}:`, error);
+    }
+    this.files.set(key, { mtimeMs: stats?.mtimeMs ?? 0, size: stats?.size ?? 0, value: documents });
+    return true;
+  }
+}
+
+const searchIndex = new SearchIndex();
+
+/**
+ * Build a short snippet around the first occurrence of a query term
+ */
+function makeSnippet(text: string, terms: string[]): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (!flat) {
+    return '';
+  }
+
+  const lower = flat.toLowerCase();
+  let matchIdx = -1;
+  for (const term of terms) {
+    const idx = lower.indexOf(term);
+    if (idx >= 0 && (matchIdx < 0 || idx < matchIdx)) {
+      matchIdx = idx;
+    }
+  }
+
+  const start = matchIdx > SNIPPET_LENGTH / 4 ? matchIdx - Math.floor(SNIPPET_LENGTH / 4) : 0;
+  const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '...' : '';
+  const suffix = end < flat.length ? '...' : '';
+  return `${prefix}${flat.slice(start, end).trim()}${suffix}`;
+}
+
+/**
+ * Rank skill and resource sections against a free-text query using BM25
+ * Returns at most `limit` hits, best first
+ */
+export async function searchSkills(query: string, limit = 10): Promise<SearchHit[]> {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0) {
+    return [];
+  }
+
+  const { documents, avgLength, docFreqs } = await searchIndex.getCorpus();
+  if (documents.length === 0) {
+    return [];
+  }
+
+  // Inverse document frequency per query term
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const docFreq = docFreqs.get(term) || 0;
+    idf.set(term, Math.log(1 + (documents.length - docFreq + 0.5) / (docFreq + 0.5)));
+  }
+
+  const hits: SearchHit[] = [];
+  for (const doc of documents) {
+    let score = 0;
+    for (const term of queryTerms) {
+      const freq = doc.termFreqs.get(term);
+      if (!freq) continue;
+      const norm = freq + BM25_K1 * (1 - BM25_B + BM25_B * (doc.length / avgLength));
+      score += (idf.get(term) || 0) * ((freq * (BM25_K1 + 1)) / norm);
+    }
+
+    if (score > 0) {
+      hits.push({
+        toolName: doc.toolName,
+        path: doc.path,
+        heading: doc.heading,
+        snippet: makeSnippet(doc.text, queryTerms),
+        score,
+      });
+    }
+  }
+
+  hits.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+  return hits.slice(0, limit);
+}
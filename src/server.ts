@@ -0,0 +1,722 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  McpError,
+  ErrorCode,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  readSkillFile,
+  readResourceByUri,
+  executeSkillScript,
+  isAutoExecuteEnabled,
+  listSkillScripts,
+  ScriptExecutionResult,
+} from './utils.js';
+import {
+  skillRegistry,
+  paginate,
+  toPromptName,
+  ResourceEntry,
+  SkillEntry,
+  SEARCH_TOOL_NAME,
+  RUN_SCRIPT_TOOL_NAME,
+  READ_SECTION_TOOL_NAME,
+} from './registry.js';
+import { searchSkills } from './search.js';
+import { buildInputSchema, validateArguments, substitutePlaceholders } from './arguments.js';
+import { splitFrontmatter, ArgumentValue } from './manifest.js';
+import { SkillPathError } from './skillfs.js';
+import {
+  getResponseSettings,
+  estimateTokens,
+  compactWhitespace,
+  parseSections,
+  findSection,
+  takeSections,
+  MarkdownSection,
+} from './budget.js';
+import { DEFAULT_SCRIPT_TIMEOUT_SECONDS, DEFAULT_SCRIPT_MAX_OUTPUT_BYTES } from './sandbox.js';
+import { watchSkills, SkillsChange } from './watcher.js';
+import { basename, dirname } from 'path';
+
+const SEARCH_DEFAULT_LIMIT = 10;
+const SEARCH_MAX_LIMIT = 50;
+
+/**
+ * MCP server exposing skills as tools, prompts and resources
+ * A server instance serves exactly one connection: stdio runs a single instance,
+ * the HTTP transport creates one instance per client session
+ */
+export class SkillsHubServer {
+  private server: Server;
+  private subscriptions = new Set<string>();
+  private unwatch: (() => void) | null = null;
+
+  constructor() {
+    // Note: Server class is marked as deprecated in the SDK, but it's still required
+    // for dynamic tool registration via setRequestHandler. McpServer doesn't support
+    // this pattern for dynamically loaded tools from the filesystem.
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore - Server is deprecated but required for dynamic tool registration
+    this.server = new Server(
+      {
+        name: 'ai-skills-hub',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: { listChanged: true },
+          prompts: { listChanged: true },
+          resources: { listChanged: true, subscribe: true },
+        },
+      }
+    );
+
+    this.setupHandlers();
+    this.setupPromptHandlers();
+    this.setupSubscriptionHandlers();
+    this.setupErrorHandling();
+  }
+
+  private setupHandlers() {
+    // Handle list_tools request
+    this.server.setRequestHandler(ListToolsRequestSchema, async (request) => {
+      const skills = await skillRegistry.listSkills();
+      const tools = [];
+
+      // Built-in search tool, lets agents find the right skill before calling it
+      tools.push({
+        name: SEARCH_TOOL_NAME,
+        description: 'Search all skills and their resources by keyword. Returns ranked matches with the skill tool name, matching section heading, and a snippet. Use this to find the right skill before calling it.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: 'Free-text search query, e.g. "pagination error format"',
+            },
+            limit: {
+              type: 'number',
+              description: `Maximum number of results (default ${SEARCH_DEFAULT_LIMIT}, max ${SEARCH_MAX_LIMIT})`,
+            },
+          },
+          required: ['query'],
+        },
+      });
+
+      // Built-in script runner, replaces guessing shell commands from the execution context
+      tools.push({
+        name: RUN_SCRIPT_TOOL_NAME,
+        description: `List or run the scripts in a skill's scripts/ directory. Call without "script" to list them. Returns stdout, stderr and the exit code. Each skill's execution policy sets the timeout, output cap, environment and sandboxing (default: ${DEFAULT_SCRIPT_TIMEOUT_SECONDS}s, ${DEFAULT_SCRIPT_MAX_OUTPUT_BYTES / 1024} KB per stream). Unless auto-execution is enabled, the user is asked to confirm each run.`,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            skill: {
+              type: 'string',
+              description: 'Tool name of the skill, as listed by tools/list',
+            },
+            script: {
+              type: 'string',
+              description: 'Script path relative to the skill directory, e.g. "scripts/test.sh". Omit to list the available scripts',
+            },
+            args: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Arguments passed to the script',
+            },
+          },
+          required: ['skill'],
+        },
+        outputSchema: {
+          type: 'object',
+          properties: {
+            scripts: { type: 'array', items: { type: 'string' } },
+            stdout: { type: 'string' },
+            stderr: { type: 'string' },
+            exitCode: { type: ['number', 'null'] },
+            signal: { type: ['string', 'null'] },
+            timedOut: { type: 'boolean' },
+            truncated: { type: 'boolean' },
+            error: { type: 'string' },
+          },
+        },
+      });
+
+      // Built-in section reader, for skills returned as outline because they exceed the token budget
+      tools.push({
+        name: READ_SECTION_TOOL_NAME,
+        description: 'Read one section of a skill by heading, including its subsections. Use it when a skill was returned as an outline because it exceeds the response token budget.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            skill: {
+              type: 'string',
+              description: 'Tool name of the skill, as listed by tools/list',
+            },
+            heading: {
+              type: 'string',
+              description: 'Section heading as shown in the outline, e.g. "Error Handling"',
+            },
+            arguments: {
+              type: 'object',
+              description: 'Arguments of the skill, used to fill {{placeholders}} like a call to the skill tool',
+            },
+          },
+          required: ['skill', 'heading'],
+        },
+      });
+
+      for (const skill of skills) {
+        tools.push({
+          name: skill.toolName,
+          description: skill.description,
+          inputSchema: buildInputSchema(skill.manifest.arguments),
+        });
+      }
+
+      const { page, nextCursor } = paginate(tools, request.params?.cursor);
+      return { tools: page, nextCursor };
+    });
+
+    // Handle call_tool request
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name } = request.params;
+
+      // Handle built-in search tool
+      if (name === SEARCH_TOOL_NAME) {
+        return this.handleSearch(request.params.arguments);
+      }
+
+      // Handle built-in script runner
+      if (name === RUN_SCRIPT_TOOL_NAME) {
+        return this.handleRunScript(request.params.arguments);
+      }
+
+      // Handle built-in section reader
+      if (name === READ_SECTION_TOOL_NAME) {
+        return this.handleReadSection(request.params.arguments);
+      }
+
+      // Handle regular skill tools
+      const skill = await skillRegistry.findByToolName(name);
+      if (!skill) {
+        throw new Error(`Invalid tool name: ${name}`);
+      }
+
+      // Invalid input is a tool error (visible to the model), not a protocol error
+      const { values, issues } = validateArguments(skill.manifest.arguments, request.params.arguments);
+      if (issues.length > 0) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Invalid arguments for ${name}:\n${issues.map(issue => `- ${issue}`).join('\n')}`,
+            },
+          ],
+          structuredContent: { error: 'invalid_arguments', issues },
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: await this.renderSkill(skill, values),
+          },
+        ],
+      };
+    });
+
+    // Handle resources/list request - list all available resources
+    this.server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      let allResources: ResourceEntry[] = [];
+      try {
+        allResources = await skillRegistry.listResources();
+      } catch (error) {
+        console.error('Error listing resources:', error);
+      }
+      
+      const resources = allResources.map(resource => ({
+        uri: resource.uri,
+        name: resource.uri.replace(/^skill:\/\//, '').replace(/\.md$/, ''),
+        description: resource.description,
+        mimeType: resource.mimeType,
+      }));
+      
+      const { page, nextCursor } = paginate(resources, request.params?.cursor);
+      return { resources: page, nextCursor };
+    });
+
+    // Handle resources/templates/list request - any file inside a skill can be read by URI
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: [
+          {
+            uriTemplate: 'skill://{skill}/{path}',
+            name: 'skill-file',
+            title: 'Skill file',
+            description: 'Any file inside a skill directory, e.g. skill://api-design/resources/schemas/openapi.yaml or skill://go-testing/scripts/test.sh. {skill} is the skill directory relative to its root, {path} is relative to the skill directory; both may contain "/".',
+          },
+        ],
+      };
+    });
+
+    // Handle resources/read request - read specific resource
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      
+      if (!uri) {
+        throw new Error('Resource URI is required');
+      }
+      
+      try {
+        const content = await readResourceByUri(uri);
+        
+        // Text files are returned as text, binary files (images, archives) as base64 blobs
+        return {
+          contents: [
+            content.blob !== undefined
+              ? { uri, mimeType: content.mimeType, blob: content.blob }
+              : { uri, mimeType: content.mimeType, text: content.text ?? '' },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof SkillPathError) {
+          throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}. ${error.message}`);
+        }
+        throw new Error(
+          `Failed to read resource: ${uri}. ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+  }
+
+  private setupPromptHandlers() {
+    // Handle prompts/list request - every skill is also a prompt (slash command in most clients)
+    this.server.setRequestHandler(ListPromptsRequestSchema, async (request) => {
+      const skills = await skillRegistry.listSkills();
+
+      const prompts = skills.map(skill => ({
+        name: toPromptName(skill.toolName),
+        description: skill.description,
+        arguments: skill.manifest.arguments.map(arg => ({
+          name: arg.name,
+          description: arg.description,
+          required: arg.required,
+        })),
+      }));
+
+      const { page, nextCursor } = paginate(prompts, request.params?.cursor);
+      return { prompts: page, nextCursor };
+    });
+
+    // Handle prompts/get request - same content and execution context as call_tool
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name } = request.params;
+
+      const skill = await skillRegistry.findByPromptName(name);
+      if (!skill) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+      }
+
+      // Prompt arguments arrive as strings, coerce them to the declared types
+      const { values, issues } = validateArguments(skill.manifest.arguments, request.params.arguments, true);
+      if (issues.length > 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt ${name}: ${issues.join('; ')}`);
+      }
+
+      return {
+        description: skill.description,
+        messages: [
+          {
+            role: 'user' as const,
+            content: {
+              type: 'text' as const,
+              text: await this.renderSkill(skill, values),
+            },
+          },
+        ],
+      };
+    });
+  }
+
+  /**
+   * Build the text returned for a skill: execution context header, SKILL.md content
+   * (with argument placeholders substituted) and the index of its resources
+   * (without their content, to save tokens)
+   * A skill over the token budget is returned as an outline plus the sections that fit,
+   * the rest can be fetched with read_skill_section
+   */
+  private async renderSkill(skill: SkillEntry, args: Record<string, ArgumentValue> = {}): Promise<string> {
+    const filename = skill.path;
+
+    try {
+      const settings = await getResponseSettings();
+      const { frontmatter, body } = await this.readSkillBody(skill, args, settings.compactWhitespace);
+
+      // Read resources directory index information (only includes filename and description, not full content)
+      const resourcesIndex = await skillRegistry.getSkillResources(skill);
+
+      // Extract skill name and directory path
+      const skillPath = dirname(filename);
+      const skillName = basename(skillPath);
+      const skillDir = skill.dir;
+
+      // Add execution context at the beginning
+      const title = `---\n**Execution Context for this Skill**\n`;
+      let header = `- Skill Name: ${skillName}\n`;
+      header += `- Skill Directory: ${skillDir}\n`;
+      for (const [argName, value] of Object.entries(args)) {
+        header += `- Argument ${argName}: ${value}\n`;
+      }
+      header += `- Note: When executing scripts or commands mentioned in this skill, use the Shell tool with working_directory set to the skill directory above.\n`;
+
+      // If there are resource files, add index list (without full content to save tokens)
+      let resourcesText = '';
+      if (resourcesIndex.length > 0) {
+        resourcesText += '\n\n---\n\n## Available Resources\n\n';
+        resourcesText += 'The following resource files are available for this skill. ';
+        resourcesText += 'Each resource provides detailed guidance on specific topics.\n\n';
+
+        // Add index information for each resource after sorting by filename
+        for (const resource of resourcesIndex) {
+          const resourceName = resource.filename.replace(/\.md$/, '');
+          resourcesText += `- **${resourceName}**: ${resource.description}\n`;
+        }
+
+        resourcesText += '\n';
+      }
+
+      const frontmatterText = frontmatter !== null && !settings.stripFrontmatter ? `---\n${frontmatter}\n---\n` : '';
+      let content = frontmatterText + body;
+
+      const fullTokens = estimateTokens(title + header + content + resourcesText);
+      if (fullTokens > settings.tokenBudget) {
+        // Over budget: outline of every section, then as many leading sections as fit
+        const sections = parseSections(body);
+        const outline = this.renderOutline(sections, 0);
+        const reserved = estimateTokens(title + header + frontmatterText + outline + resourcesText) + 100;
+        const { included } = takeSections(sections, Math.max(settings.tokenBudget - reserved, 0));
+
+        header += `- Note: This skill is about ${fullTokens} tokens, over the response budget of ${settings.tokenBudget}. `;
+        header += `Only the first sections are included, call ${READ_SECTION_TOOL_NAME} with a heading from the outline to read the others.\n`;
+        content = frontmatterText
+          + this.renderOutline(sections, included.length)
+          + '\n---\n\n'
+          + included.map(section => section.text).join('');
+      }
+
+      const rest = `${header}---\n\n${content}${resourcesText}`;
+      return `${title}- Estimated tokens: ${estimateTokens(title + rest)}\n${rest}`;
+    } catch (error) {
+      throw new Error(
+        `Failed to read skill file: ${filename}. ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Read a skill's frontmatter and body, with placeholders substituted and optionally compacted
+   */
+  private async readSkillBody(skill: SkillEntry, args: Record<string, ArgumentValue>, compact: boolean) {
+    const raw = await readSkillFile(skill.path);
+    const { frontmatter, body } = splitFrontmatter(raw);
+
+    // Placeholders are only substituted in the body
+    const substituted = substitutePlaceholders(body, skill.manifest.arguments, args);
+    return { frontmatter, body: compact ? compactWhitespace(substituted) : substituted };
+  }
+
+  /**
+   * Outline of a skill's headings with their estimated size, marking the first `includedCount`
+   * sections as included in the response
+   */
+  private renderOutline(sections: MarkdownSection[], includedCount: number): string {
+    let outline = '## Outline\n\n';
+    for (const [idx, section] of sections.entries()) {
+      if (section.level === 0) continue;
+      const indent = '  '.repeat(section.level - 1);
+      const marker = idx < includedCount ? ' (included below)' : '';
+      outline += `${indent}- ${section.heading} (~${estimateTokens(section.text)} tokens)${marker}\n`;
+    }
+    return outline;
+  }
+
+  private setupSubscriptionHandlers() {
+    // Handle resources/subscribe request - notify client when resource content changes
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    // Handle resources/unsubscribe request
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  private async handleSearch(args: Record<string, unknown> | undefined) {
+    const query = typeof args?.query === 'string' ? args.query.trim() : '';
+    if (!query) {
+      return {
+        content: [{ type: 'text' as const, text: 'Error: "query" must be a non-empty string' }],
+        isError: true,
+      };
+    }
+
+    const requestedLimit = typeof args?.limit === 'number' ? Math.floor(args.limit) : SEARCH_DEFAULT_LIMIT;
+    const limit = Math.min(Math.max(requestedLimit, 1), SEARCH_MAX_LIMIT);
+    const hits = await searchSkills(query, limit);
+
+    if (hits.length === 0) {
+      return {
+        content: [{ type: 'text' as const, text: `No skills matched "${query}".` }],
+      };
+    }
+
+    let text = `Found ${hits.length} result${hits.length > 1 ? 's' : ''} for "${query}":\n\n`;
+    hits.forEach((hit, idx) => {
+      text += `${idx + 1}. **${hit.toolName}** - ${hit.heading} (${hit.path}, score ${hit.score.toFixed(2)})\n`;
+      if (hit.snippet) {
+        text += `   ${hit.snippet}\n`;
+      }
+    });
+    text += '\nCall the tool name above to load the full skill.\n';
+
+    return {
+      content: [{ type: 'text' as const, text }],
+    };
+  }
+
+  private async handleRunScript(args: Record<string, unknown> | undefined) {
+    const toolError = (text: string) => ({
+      content: [{ type: 'text' as const, text: `Error: ${text}` }],
+      isError: true,
+    });
+
+    const skillName = typeof args?.skill === 'string' ? args.skill.trim() : '';
+    if (!skillName) {
+      return toolError('"skill" must be the tool name of a skill');
+    }
+    const scriptArgs = args?.args ?? [];
+    if (!Array.isArray(scriptArgs) || !scriptArgs.every(arg => typeof arg === 'string')) {
+      return toolError('"args" must be a list of strings');
+    }
+
+    const skill = await skillRegistry.findByToolName(skillName);
+    if (!skill) {
+      return toolError(`Unknown skill: ${skillName}`);
+    }
+    const scripts = await listSkillScripts(skill.dir);
+
+    // No script given, list what can be run
+    if (args?.script === undefined) {
+      const text = scripts.length > 0
+        ? `Scripts of ${skillName}:\n${scripts.map(script => `- ${script}`).join('\n')}`
+        : `Skill ${skillName} has no scripts.`;
+      return {
+        content: [{ type: 'text' as const, text }],
+        structuredContent: { scripts },
+      };
+    }
+
+    // Only listed scripts can be run, accept paths with or without the scripts/ prefix
+    const requested = typeof args.script === 'string' ? args.script.trim().replace(/^\.\//, '') : '';
+    const script = scripts.find(candidate => candidate === requested || candidate === `scripts/${requested}`);
+    if (!script) {
+      return toolError(`Script not found in ${skillName}: ${String(args.script)}. Available: ${scripts.join(', ') || 'none'}`);
+    }
+
+    if (!(await isAutoExecuteEnabled())) {
+      const declined = await this.confirmScriptRun(skillName, script, scriptArgs);
+      if (declined) {
+        return toolError(declined);
+      }
+    }
+
+    const relativeDir = skill.path.replace(/\/?SKILL\.md$/, '');
+    let result: ScriptExecutionResult;
+    try {
+      result = await executeSkillScript(relativeDir, script, scriptArgs);
+    } catch (error) {
+      return toolError(error instanceof Error ? error.message : String(error));
+    }
+
+    let text = `$ ${[script, ...scriptArgs].join(' ')}\n`;
+    text += result.error ? `${result.error}\n` : `Exit code: ${result.exitCode}\n`;
+    if (result.stdout) {
+      text += `\nstdout:\n${result.stdout}\n`;
+    }
+    if (result.stderr) {
+      text += `\nstderr:\n${result.stderr}\n`;
+    }
+    if (result.truncated) {
+      text += '\nOutput truncated, the skill\'s execution policy caps each stream.\n';
+    }
+
+    return {
+      content: [{ type: 'text' as const, text }],
+      structuredContent: { ...result },
+      isError: result.exitCode !== 0,
+    };
+  }
+
+  private async handleReadSection(args: Record<string, unknown> | undefined) {
+    const toolError = (text: string) => ({
+      content: [{ type: 'text' as const, text: `Error: ${text}` }],
+      isError: true,
+    });
+
+    const skillName = typeof args?.skill === 'string' ? args.skill.trim() : '';
+    const heading = typeof args?.heading === 'string' ? args.heading.trim() : '';
+    if (!skillName || !heading) {
+      return toolError('"skill" and "heading" must be non-empty strings');
+    }
+    const skillArgs = args?.arguments ?? {};
+    if (typeof skillArgs !== 'object' || Array.isArray(skillArgs) || skillArgs === null) {
+      return toolError('"arguments" must be an object');
+    }
+
+    const skill = await skillRegistry.findByToolName(skillName);
+    if (!skill) {
+      return toolError(`Unknown skill: ${skillName}`);
+    }
+    const { values, issues } = validateArguments(skill.manifest.arguments, skillArgs as Record<string, unknown>);
+    if (issues.length > 0) {
+      return toolError(`Invalid arguments for ${skillName}: ${issues.join('; ')}`);
+    }
+
+    const settings = await getResponseSettings();
+    const { body } = await this.readSkillBody(skill, values, settings.compactWhitespace);
+    const sections = parseSections(body);
+    const section = findSection(sections, heading);
+    if (!section) {
+      const headings = sections.filter(candidate => candidate.level > 0).map(candidate => candidate.heading);
+      return toolError(`No section "${heading}" in ${skillName}. Headings: ${headings.join(', ')}`);
+    }
+
+    // A section can itself be over budget, return its leading subsections and list the rest
+    let text = section.text;
+    if (estimateTokens(text) > settings.tokenBudget) {
+      const subsections = parseSections(text);
+      const { included } = takeSections(subsections, settings.tokenBudget);
+      const remaining = subsections.slice(included.length).map(subsection => subsection.heading);
+      text = included.map(subsection => subsection.text).join('');
+      text += `\n---\nSection truncated to the response budget of ${settings.tokenBudget} tokens. `;
+      text += remaining.length > 0 ? `Read the remaining subsections by heading: ${remaining.join(', ')}\n` : '\n';
+    }
+
+    return {
+      content: [{ type: 'text' as const, text: `Estimated tokens: ${estimateTokens(text)}\n\n${text}` }],
+    };
+  }
+
+  /**
+   * Ask the user to confirm a script run through MCP elicitation
+   * Returns the reason the run was refused, or null when the user confirmed
+   */
+  private async confirmScriptRun(skillName: string, script: string, scriptArgs: string[]): Promise<string | null> {
+    if (!this.server.getClientCapabilities()?.elicitation) {
+      return 'Script execution requires confirmation, but this client does not support elicitation. Set "autoExecuteScripts": true in ~/.ai-skills-hub/settings.json to allow running skill scripts.';
+    }
+
+    const command = [script, ...scriptArgs].join(' ');
+    let result: Awaited<ReturnType<Server['elicitInput']>>;
+    try {
+      result = await this.server.elicitInput({
+        message: `Run "${command}" from skill ${skillName}?`,
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            confirm: {
+              type: 'boolean',
+              title: 'Run script',
+              description: `Execute ${command} in the ${skillName} skill directory`,
+            },
+          },
+          required: ['confirm'],
+        },
+      });
+    } catch (error) {
+      // Timeouts, cancellations and invalid responses refuse the run like a decline
+      return `Confirmation failed: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    if (result.action !== 'accept' || result.content?.confirm !== true) {
+      return `The user declined to run ${command}`;
+    }
+    return null;
+  }
+
+  private setupErrorHandling() {
+    this.server.onerror = (error: Error) => {
+      console.error('[MCP Error]', error);
+    };
+
+    this.server.onclose = () => {
+      this.unwatch?.();
+      this.unwatch = null;
+    };
+  }
+
+  /**
+   * Forward skills directory changes to the client as MCP notifications
+   */
+  private async notifyChange(change: SkillsChange) {
+    try {
+      if (change.toolsChanged) {
+        // Prompts mirror the skill tools
+        await this.server.sendToolListChanged();
+        await this.server.sendPromptListChanged();
+      }
+      if (change.resourcesChanged) {
+        await this.server.sendResourceListChanged();
+      }
+      for (const uri of change.changedUris) {
+        if (this.subscriptions.has(uri)) {
+          await this.server.sendResourceUpdated({ uri });
+        }
+      }
+    } catch (error) {
+      console.error('Error sending change notification:', error);
+    }
+  }
+
+  /**
+   * Connect this server instance to a transport (stdio, Streamable HTTP or SSE)
+   * and start watching the skills directory for live reload
+   */
+  async connect(transport: Transport) {
+    await this.server.connect(transport);
+    this.unwatch = watchSkills((change) => {
+      this.notifyChange(change);
+    });
+  }
+
+  async close() {
+    await this.server.close();
+  }
+
+  async run() {
+    process.on('SIGINT', async () => {
+      await this.close();
+      process.exit(0);
+    });
+
+    const transport = new StdioServerTransport();
+    await this.connect(transport);
+    console.error('AI Skills Hub MCP server running on stdio');
+  }
+}
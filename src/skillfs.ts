@@ -0,0 +1,133 @@
+import { lstat, realpath, stat, open } from 'fs/promises';
+import { join, relative, isAbsolute, sep } from 'path';
+
+/**
+ * How symlinks inside a skill root are treated
+ * - deny: any symlink on the path is rejected
+ * - within-root: symlinks are followed as long as the target stays inside the same root (default)
+ * - follow: symlinks are followed anywhere
+ */
+export type SymlinkPolicy = 'deny' | 'within-root' | 'follow';
+
+/**
+ * Settings for skill file access (`fileAccess` in settings.json)
+ */
+export interface FileAccessOptions {
+  symlinks?: SymlinkPolicy;
+  maxFileBytes?: number;
+}
+
+export const SYMLINK_POLICIES: SymlinkPolicy[] = ['deny', 'within-root', 'follow'];
+export const DEFAULT_MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Thrown when a skill path is rejected (traversal, control characters, symlink policy, size cap)
+ * The message is safe to return to clients: it never contains resolved paths outside the root
+ */
+export class SkillPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SkillPathError';
+  }
+}
+
+/**
+ * Validate a path relative to a skill root (e.g. `go-testing/resources/guide.md`)
+ * Rejects empty, absolute and Windows-style paths, control characters, and `.`/`..` segments
+ * Returns the path's segments
+ */
+export function validateSkillPath(relPath: string): string[] {
+  if (typeof relPath !== 'string' || !relPath) {
+    throw new SkillPathError('Path is empty');
+  }
+  // eslint-disable-next-line no-control-regex
+  if (/[\u0000-\u001f\u007f]/.test(relPath)) {
+    throw new SkillPathError('Path contains control characters');
+  }
+  if (relPath.includes('\\')) {
+    throw new SkillPathError('Path must use "/" separators');
+  }
+  if (relPath.startsWith('/') || /^[A-Za-z]:/.test(relPath)) {
+    throw new SkillPathError('Path must be relative to the skill root');
+  }
+
+  const segments = relPath.split('/');
+  if (segments.some(segment => segment === '' || segment === '.' || segment === '..')) {
+    throw new SkillPathError('Path must not contain empty, "." or ".." segments');
+  }
+  return segments;
+}
+
+function isInside(parent: string, child: string): boolean {
+  const rel = relative(parent, child);
+  return rel === '' || (!rel.startsWith(`..${sep}`) && rel !== '..' && !isAbsolute(rel));
+}
+
+/**
+ * Resolve a path inside a skill root, enforcing containment and the symlink policy
+ * Returns the real path of the file, ready to be read
+ */
+export async function resolveContainedPath(rootDir: string, relPath: string, options: FileAccessOptions = {}): Promise<string> {
+  const segments = validateSkillPath(relPath);
+  const policy = options.symlinks ?? 'within-root';
+
+  const absPath = join(rootDir, ...segments);
+  if (!isInside(rootDir, absPath)) {
+    throw new SkillPathError(`Path escapes the skill root: ${relPath}`);
+  }
+
+  // The root itself may be a symlink (e.g. a dotfiles checkout), only links below it count
+  const realRoot = await realpath(rootDir);
+  if (policy === 'deny') {
+    let current = realRoot;
+    for (const segment of segments) {
+      current = join(current, segment);
+      const stats = await lstat(current);
+      if (stats.isSymbolicLink()) {
+        throw new SkillPathError(`Symlinks are not allowed: ${relPath}`);
+      }
+    }
+    return current;
+  }
+
+  const realPath = await realpath(absPath);
+  if (policy === 'within-root' && !isInside(realRoot, realPath)) {
+    throw new SkillPathError(`Symlink points outside the skill root: ${relPath}`);
+  }
+  return realPath;
+}
+
+/**
+ * Check a file inside a skill root without reading it: containment, symlink policy, regular file, size cap
+ * Returns the real path and size, for callers that only read part of the file
+ */
+export async function checkContainedFile(rootDir: string, relPath: string, options: FileAccessOptions = {}): Promise<{ path: string; size: number }> {
+  const filePath = await resolveContainedPath(rootDir, relPath, options);
+  const maxBytes = options.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+
+  const stats = await stat(filePath);
+  if (!stats.isFile()) {
+    throw new SkillPathError(`Not a file: ${relPath}`);
+  }
+  if (stats.size > maxBytes) {
+    throw new SkillPathError(`File is larger than ${maxBytes} bytes: ${relPath}`);
+  }
+  return { path: filePath, size: stats.size };
+}
+
+/**
+ * Read a file inside a skill root through resolveContainedPath, refusing files over the size cap
+ */
+export async function readContainedFile(rootDir: string, relPath: string, options: FileAccessOptions = {}): Promise<Buffer> {
+  const { path: filePath, size } = await checkContainedFile(rootDir, relPath, options);
+
+  // Read through the handle so a file growing after the size check is still capped
+  const handle = await open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(size);
+    const { bytesRead } = await handle.read(buffer, 0, size, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
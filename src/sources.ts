@@ -0,0 +1,340 @@
+import { lstat, readdir, readFile, mkdtemp, mkdir, rm, writeFile, stat } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, basename, dirname, resolve } from 'path';
+import { tmpdir } from 'os';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { fetchGitHubDirectory, parseGitHubUrl } from './github.js';
+import { SkillFile } from './install.js';
+import { resolveContainedPath } from './skillfs.js';
+import { expandHome } from './utils.js';
+
+const execFileAsync = promisify(execFile);
+
+// Refuse to read sources this large, `add ~` should fail fast instead of reading the home directory
+const MAX_SOURCE_FILES = 5000;
+
+/**
+ * Where skills are installed from
+ * - github: a GitHub tree/blob/raw URL (through the GitHub API)
+ * - url: any other URL to a single SKILL.md
+ * - local: a directory (or SKILL.md) on this machine
+ * - git: a repository cloned with git, `#ref:subpath` selects a ref and a directory
+ * - archive: a .tar.gz/.tgz/.zip file, local or downloaded
+ */
+export type SourceKind = 'github' | 'url' | 'local' | 'git' | 'archive';
+
+/**
+ * One skill found in a source, `path` is its directory relative to the source root ('' for the root itself)
+ */
+export interface SourceSkill {
+  name: string;
+  path: string;
+  files: SkillFile[];
+}
+
+/**
+ * Everything a source contains, already read into memory
+ * `source` is the spec to resolve it again (local paths made absolute),
+ * `ref`/`commit` are set for git and GitHub sources
+ */
+export interface ResolvedSource {
+  kind: SourceKind;
+  source: string;
+  description: string;
+  ref?: string;
+  commit?: string;
+  skills: SourceSkill[];
+  skipped: string[];
+}
+
+/**
+ * Files of a source before they are split into skills
+ */
+interface SourceTree {
+  name: string;
+  files: SkillFile[];
+  skipped: string[];
+  ref?: string;
+  commit?: string;
+}
+
+/**
+ * Parse `git+https://host/repo.git#ref:subpath` and `git@host:owner/repo.git#ref:subpath`
+ * Both `ref` and `subpath` are optional (`#main`, `#:skills/foo`)
+ * Returns null when the spec is not a git source, throws when its URL or ref looks like an option
+ */
+export function parseGitSpec(spec: string): { url: string; ref?: string; subpath?: string } | null {
+  let url: string;
+  if (spec.startsWith('git+')) {
+    url = spec.slice('git+'.length);
+  } else if (/^git@[^:]+:/.test(spec) || spec.startsWith('ssh://')) {
+    url = spec;
+  } else {
+    return null;
+  }
+
+  const hashIdx = url.indexOf('#');
+  if (hashIdx < 0) {
+    return checkGitSpec({ url });
+  }
+
+  const fragment = url.slice(hashIdx + 1);
+  url = url.slice(0, hashIdx);
+  const colonIdx = fragment.indexOf(':');
+  const ref = colonIdx < 0 ? fragment : fragment.slice(0, colonIdx);
+  const subpath = colonIdx < 0 ? '' : fragment.slice(colonIdx + 1).replace(/^\/+|\/+$/g, '');
+  return checkGitSpec({ url, ref: ref || undefined, subpath: subpath || undefined });
+}
+
+/**
+ * Reject a URL or ref git would read as an option (`git+--upload-pack=...`, `#--output=...`)
+ */
+function checkGitSpec(spec: { url: string; ref?: string; subpath?: string }): { url: string; ref?: string; subpath?: string } {
+  if (!spec.url || spec.url.startsWith('-')) {
+    throw new Error(`Invalid git repository URL: "${spec.url}"`);
+  }
+  if (spec.ref?.startsWith('-')) {
+    throw new Error(`Invalid git ref: "${spec.ref}"`);
+  }
+  return spec;
+}
+
+function isArchive(spec: string): boolean {
+  return /\.(tar\.gz|tgz|zip)$/i.test(spec.split(/[?#]/)[0]);
+}
+
+function isUrl(spec: string): boolean {
+  return /^https?:\/\//i.test(spec);
+}
+
+/**
+ * Read every file below `rootDir` (hidden entries and symlinks are skipped)
+ */
+export async function readLocalTree(rootDir: string): Promise<{ files: SkillFile[]; skipped: string[] }> {
+  const files: SkillFile[] = [];
+  const skipped: string[] = [];
+
+  const walk = async (relativeDir: string): Promise<void> => {
+    const entries = await readdir(join(rootDir, relativeDir), { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith('.')) continue;
+      const relPath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      const fullPath = join(rootDir, relPath);
+
+      const stats = await lstat(fullPath);
+      if (stats.isSymbolicLink()) {
+        skipped.push(relPath);
+      } else if (stats.isDirectory()) {
+        await walk(relPath);
+      } else if (stats.isFile()) {
+        if (files.length >= MAX_SOURCE_FILES) {
+          throw new Error(`Source has more than ${MAX_SOURCE_FILES} files: ${rootDir}`);
+        }
+        files.push({
+          path: relPath,
+          // Same normalization git uses: executable or not
+          mode: stats.mode & 0o111 ? 0o755 : 0o644,
+          content: await readFile(fullPath),
+        });
+      }
+    }
+  };
+
+  await walk('');
+  return { files, skipped };
+}
+
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(join(tmpdir(), 'skillshub-'));
+  try {
+    return await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function run(command: string, args: string[], cwd?: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync(command, args, {
+      cwd,
+      // Never wait for credentials on a terminal the user can't see
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+      maxBuffer: 16 * 1024 * 1024,
+    });
+    return stdout;
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException & { stderr?: string };
+    if (err.code === 'ENOENT') {
+      throw new Error(`"${command}" is required for this source but is not installed`);
+    }
+    throw new Error(`${command} ${args[0]} failed: ${(err.stderr || err.message).trim()}`);
+  }
+}
+
+async function readLocalSource(spec: string): Promise<SourceTree> {
+  let dir = resolve(expandHome(spec));
+  const stats = await stat(dir).catch(() => null);
+  if (!stats) {
+    throw new Error(`Path not found: ${spec}`);
+  }
+  // A path to a SKILL.md installs its directory
+  if (stats.isFile() && basename(dir) === 'SKILL.md') {
+    dir = dirname(dir);
+  } else if (!stats.isDirectory()) {
+    throw new Error(`Not a directory: ${spec}`);
+  }
+
+  return { name: basename(dir), ...await readLocalTree(dir) };
+}
+
+async function readGitSource(spec: { url: string; ref?: string; subpath?: string }): Promise<SourceTree> {
+  return withTempDir(async (dir) => {
+    // init + fetch (instead of clone) so `ref` may be a branch, a tag or a commit
+    await run('git', ['init', '--quiet', dir]);
+    // `--` so the URL and ref are never read as options
+    await run('git', ['fetch', '--quiet', '--depth', '1', '--', spec.url, spec.ref || 'HEAD'], dir);
+    await run('git', ['checkout', '--quiet', 'FETCH_HEAD'], dir);
+    const commit = (await run('git', ['rev-parse', 'HEAD'], dir)).trim();
+
+    const repoName = basename(spec.url.replace(/\/+$/, '')).replace(/\.git$/, '');
+    if (!spec.subpath) {
+      return { name: repoName, ref: spec.ref, commit, ...await readLocalTree(dir) };
+    }
+
+    // The subpath must stay inside the checkout, symlinks included
+    const rootDir = await resolveContainedPath(dir, spec.subpath, { symlinks: 'deny' }).catch((error: Error) => {
+      throw new Error(`Invalid subpath "${spec.subpath}": ${(error as NodeJS.ErrnoException).code === 'ENOENT' ? 'not found in repository' : error.message}`);
+    });
+    return { name: basename(rootDir), ref: spec.ref, commit, ...await readLocalTree(rootDir) };
+  });
+}
+
+async function readArchiveSource(spec: string): Promise<SourceTree> {
+  return withTempDir(async (dir) => {
+    const archiveName = basename(spec.split(/[?#]/)[0]);
+    let archivePath: string;
+    if (isUrl(spec)) {
+      const response = await fetch(spec).catch((error: Error) => {
+        throw new Error(`Failed to download ${spec}: ${error.message}`);
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to download ${spec} (HTTP ${response.status})`);
+      }
+      archivePath = join(dir, archiveName);
+      await writeFile(archivePath, Buffer.from(await response.arrayBuffer()));
+    } else {
+      archivePath = resolve(expandHome(spec));
+      if (!existsSync(archivePath)) {
+        throw new Error(`Archive not found: ${spec}`);
+      }
+    }
+
+    // Extracted files are only read back through readLocalTree, which skips symlinks
+    const extractDir = join(dir, 'extracted');
+    await mkdir(extractDir);
+    if (/\.zip$/i.test(archiveName)) {
+      await run('unzip', ['-q', archivePath, '-d', extractDir]);
+    } else {
+      await run('tar', ['-xzf', archivePath, '-C', extractDir, '--no-same-owner']);
+    }
+
+    return { name: archiveName.replace(/\.(tar\.gz|tgz|zip)$/i, ''), ...await readLocalTree(extractDir) };
+  });
+}
+
+async function readUrlSource(url: string): Promise<SourceTree> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new Error(`Failed to download file from ${url}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to download file from ${url}: HTTP error! status: ${response.status}`);
+  }
+
+  // Only the SKILL.md itself can be fetched, the skill is named after its directory
+  const parts = new URL(url).pathname.split('/').filter(Boolean);
+  const name = parts[parts.length - 1] === 'SKILL.md' && parts.length > 1 ? parts[parts.length - 2] : 'skill';
+  return { name, files: [{ path: 'SKILL.md', mode: 0o644, content: Buffer.from(await response.arrayBuffer()) }], skipped: [] };
+}
+
+/**
+ * Split a source's files into skills: every directory with a SKILL.md is one skill,
+ * named after that directory (the source's own name for the root)
+ * Files outside any skill are ignored, files of nested skills belong to the innermost one
+ */
+export function collectSkills(tree: SourceTree): SourceSkill[] {
+  const visible = tree.files.filter(file => !file.path.split('/').some(segment => segment.startsWith('.')));
+  const skillDirs = visible
+    .filter(file => file.path === 'SKILL.md' || file.path.endsWith('/SKILL.md'))
+    .map(file => file.path.slice(0, -'SKILL.md'.length).replace(/\/$/, ''))
+    // Deepest first, so each file is claimed by its innermost skill
+    .sort((a, b) => b.length - a.length);
+
+  const skills = new Map<string, SkillFile[]>(skillDirs.map(dir => [dir, []]));
+  for (const file of visible) {
+    const owner = skillDirs.find(dir => dir === '' || file.path.startsWith(`${dir}/`));
+    if (owner === undefined) continue;
+    skills.get(owner)!.push({ ...file, path: owner ? file.path.slice(owner.length + 1) : file.path });
+  }
+
+  return Array.from(skills.entries())
+    .map(([path, files]) => ({ name: path ? basename(path) : tree.name, path, files }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Describe a source spec for display, without reading it
+ */
+export function detectSourceKind(spec: string): SourceKind {
+  if (parseGitSpec(spec)) return 'git';
+  if (isArchive(spec)) return 'archive';
+  if (isUrl(spec)) return parseGitHubUrl(spec) ? 'github' : 'url';
+  return 'local';
+}
+
+/**
+ * Read a source (URL, local path, git repository or archive) and find the skills it contains
+ */
+export async function resolveSource(spec: string): Promise<ResolvedSource> {
+  const kind = detectSourceKind(spec);
+  let tree: SourceTree;
+  let description: string;
+  let source = spec;
+
+  switch (kind) {
+    case 'git': {
+      const gitSpec = parseGitSpec(spec)!;
+      description = `git repository ${gitSpec.url}${gitSpec.ref ? ` (ref ${gitSpec.ref})` : ''}${gitSpec.subpath ? `, path ${gitSpec.subpath}` : ''}`;
+      tree = await readGitSource(gitSpec);
+      break;
+    }
+    case 'archive':
+      description = `archive ${spec}`;
+      source = isUrl(spec) ? spec : resolve(expandHome(spec));
+      tree = await readArchiveSource(spec);
+      break;
+    case 'github': {
+      const location = parseGitHubUrl(spec)!;
+      description = `GitHub repository ${location.owner}/${location.repo}`;
+      tree = await fetchGitHubDirectory(location);
+      break;
+    }
+    case 'url':
+      description = `URL ${spec}`;
+      tree = await readUrlSource(spec);
+      break;
+    default:
+      source = resolve(expandHome(spec));
+      description = `local path ${source}`;
+      tree = await readLocalSource(spec);
+  }
+
+  const skills = collectSkills(tree);
+  if (skills.length === 0) {
+    throw new Error(`No SKILL.md found in ${description}`);
+  }
+  return { kind, source, description, ref: tree.ref, commit: tree.commit, skills, skipped: tree.skipped };
+}
@@ -0,0 +1,742 @@
+/**
+ * Structure-preserving TOML editing
+ * The document stays text: edits replace or insert single statements, so comments, blank lines,
+ * key order and the formatting of everything that isn't edited are kept as the user wrote them
+ */
+
+export type TomlValue = string | number | boolean | TomlDateTime | TomlValue[] | TomlTable;
+
+export interface TomlTable {
+  [key: string]: TomlValue;
+}
+
+/**
+ * Date and time values are kept as written, they are only copied around, never interpreted
+ */
+export class TomlDateTime {
+  constructor(readonly text: string) {}
+
+  toString(): string {
+    return this.text;
+  }
+}
+
+/**
+ * A table header or key/value line
+ * - table: the enclosing table (a header's own path)
+ * - path: the header path, or the table path plus the key
+ * - start / end: from the start of the first line to after the line break of the last one
+ * - valueStart / valueEnd: the value text of a key/value
+ */
+interface Statement {
+  kind: 'table' | 'arrayTable' | 'keyValue';
+  table: string[];
+  path: string[];
+  key: string[];
+  inArrayTable: boolean;
+  start: number;
+  end: number;
+  valueStart: number;
+  valueEnd: number;
+  value?: TomlValue;
+}
+
+// Original text of inline table members, reused when an edited inline table is written back
+const rawMembers = new WeakMap<TomlTable, Map<string, string>>();
+
+const BARE_KEY = /^[A-Za-z0-9_-]+$/;
+const DATETIME = /\d{4}-\d{2}-\d{2}(?:[Tt ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:[Zz]|[+-]\d{2}:\d{2})?)?|\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?/y;
+const BARE_TOKEN = /[A-Za-z0-9_+.-]+/y;
+const ESCAPES: Record<string, string> = { b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', e: '\x1b', '"': '"', '\\': '\\' };
+
+export function isTomlTable(value: TomlValue | undefined): value is TomlTable {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof TomlDateTime);
+}
+
+function isPrefix(prefix: string[], path: string[]): boolean {
+  return prefix.length <= path.length && prefix.every((part, idx) => part === path[idx]);
+}
+
+function samePath(a: string[], b: string[]): boolean {
+  return a.length === b.length && isPrefix(a, b);
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  private error(message: string): never {
+    const line = this.text.slice(0, this.pos).split('\n').length;
+    throw new Error(`Invalid TOML at line ${line}: ${message}`);
+  }
+
+  private skipWhitespace(): void {
+    while (this.text[this.pos] === ' ' || this.text[this.pos] === '\t') this.pos++;
+  }
+
+  private skipComment(): void {
+    if (this.text[this.pos] !== '#') return;
+    while (this.pos < this.text.length && this.text[this.pos] !== '\n') this.pos++;
+  }
+
+  private skipNewline(): boolean {
+    if (this.text.startsWith('\r\n', this.pos)) {
+      this.pos += 2;
+      return true;
+    }
+    if (this.text[this.pos] === '\n') {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  // Whitespace, comments and line breaks, allowed between array elements
+  private skipBlank(): void {
+    while (true) {
+      this.skipWhitespace();
+      this.skipComment();
+      if (!this.skipNewline()) return;
+    }
+  }
+
+  private expectLineEnd(): void {
+    this.skipWhitespace();
+    this.skipComment();
+    if (this.pos < this.text.length && !this.skipNewline()) {
+      this.error(`unexpected "${this.text[this.pos]}"`);
+    }
+  }
+
+  private expect(token: string): void {
+    if (!this.text.startsWith(token, this.pos)) {
+      this.error(`expected "${token}"`);
+    }
+    this.pos += token.length;
+  }
+
+  parseDocument(): Statement[] {
+    const statements: Statement[] = [];
+    let table: string[] = [];
+    let inArrayTable = false;
+
+    while (this.pos < this.text.length) {
+      const start = this.pos;
+      this.skipWhitespace();
+      this.skipComment();
+      if (this.pos >= this.text.length) break;
+      if (this.skipNewline()) continue;
+
+      if (this.text.startsWith('[[', this.pos)) {
+        this.pos += 2;
+        const path = this.parseKey();
+        this.expect(']]');
+        this.expectLineEnd();
+        table = path;
+        inArrayTable = true;
+        statements.push({ kind: 'arrayTable', table, path, key: [], inArrayTable, start, end: this.pos, valueStart: -1, valueEnd: -1 });
+      } else if (this.text[this.pos] === '[') {
+        this.pos++;
+        const path = this.parseKey();
+        this.expect(']');
+        this.expectLineEnd();
+        table = path;
+        inArrayTable = false;
+        statements.push({ kind: 'table', table, path, key: [], inArrayTable, start, end: this.pos, valueStart: -1, valueEnd: -1 });
+      } else {
+        const key = this.parseKey();
+        this.expect('=');
+        this.skipWhitespace();
+        const valueStart = this.pos;
+        const value = this.parseValue();
+        const valueEnd = this.pos;
+        this.expectLineEnd();
+        statements.push({ kind: 'keyValue', table, path: [...table, ...key], key, inArrayTable, start, end: this.pos, valueStart, valueEnd, value });
+      }
+    }
+
+    return statements;
+  }
+
+  private parseKey(): string[] {
+    const parts: string[] = [];
+    while (true) {
+      this.skipWhitespace();
+      const char = this.text[this.pos];
+      if (char === '"') {
+        parts.push(this.parseBasicString());
+      } else if (char === "'") {
+        parts.push(this.parseLiteralString());
+      } else {
+        const match = /[A-Za-z0-9_-]+/y;
+        match.lastIndex = this.pos;
+        const bare = match.exec(this.text);
+        if (!bare) this.error('expected a key');
+        parts.push(bare[0]);
+        this.pos += bare[0].length;
+      }
+      this.skipWhitespace();
+      if (this.text[this.pos] !== '.') return parts;
+      this.pos++;
+    }
+  }
+
+  private parseValue(): TomlValue {
+    const char = this.text[this.pos];
+    if (this.text.startsWith('"""', this.pos)) return this.parseMultilineString('"""');
+    if (this.text.startsWith("'''", this.pos)) return this.parseMultilineString("'''");
+    if (char === '"') return this.parseBasicString();
+    if (char === "'") return this.parseLiteralString();
+    if (char === '[') return this.parseArray();
+    if (char === '{') return this.parseInlineTable();
+    return this.parseBareValue();
+  }
+
+  private parseEscape(): string {
+    // At the character after the backslash
+    const char = this.text[this.pos++];
+    if (char in ESCAPES) return ESCAPES[char];
+    const length = char === 'u' ? 4 : char === 'U' ? 8 : char === 'x' ? 2 : 0;
+    const hex = this.text.slice(this.pos, this.pos + length);
+    if (length === 0 || !new RegExp(`^[0-9A-Fa-f]{${length}}$`).test(hex)) {
+      this.pos--;
+      this.error(`invalid escape "\\${char ?? ''}"`);
+    }
+    this.pos += length;
+    return String.fromCodePoint(parseInt(hex, 16));
+  }
+
+  private parseBasicString(): string {
+    this.pos++;
+    let result = '';
+    while (true) {
+      const char = this.text[this.pos];
+      if (char === undefined || char === '\n' || char === '\r') this.error('unterminated string');
+      this.pos++;
+      if (char === '"') return result;
+      if (char === '\\') {
+        result += this.parseEscape();
+      } else {
+        result += char;
+      }
+    }
+  }
+
+  private parseLiteralString(): string {
+    this.pos++;
+    const end = this.text.indexOf("'", this.pos);
+    const newline = this.text.indexOf('\n', this.pos);
+    if (end === -1 || (newline !== -1 && newline < end)) this.error('unterminated string');
+    const result = this.text.slice(this.pos, end);
+    this.pos = end + 1;
+    return result;
+  }
+
+  private parseMultilineString(delimiter: string): string {
+    this.pos += 3;
+    // A line break right after the opening delimiter is not part of the string
+    this.skipNewline();
+    let result = '';
+    while (true) {
+      if (this.pos >= this.text.length) this.error('unterminated string');
+      if (this.text.startsWith(delimiter, this.pos)) {
+        // Up to two quotes right before the closing delimiter belong to the string
+        let extra = 0;
+        while (extra < 2 && this.text[this.pos + 3 + extra] === delimiter[0]) extra++;
+        result += delimiter[0].repeat(extra);
+        this.pos += 3 + extra;
+        return result;
+      }
+      const char = this.text[this.pos++];
+      if (char === '\\' && delimiter === '"""') {
+        // A backslash at the end of a line trims the line break and the following whitespace
+        const lineEnd = /[ \t]*\r?\n/y;
+        lineEnd.lastIndex = this.pos;
+        if (lineEnd.test(this.text)) {
+          this.pos = lineEnd.lastIndex;
+          while (/[ \t\r\n]/.test(this.text[this.pos] ?? '')) this.pos++;
+        } else {
+          result += this.parseEscape();
+        }
+      } else {
+        result += char;
+      }
+    }
+  }
+
+  private parseArray(): TomlValue[] {
+    this.pos++;
+    const items: TomlValue[] = [];
+    while (true) {
+      this.skipBlank();
+      if (this.text[this.pos] === ']') {
+        this.pos++;
+        return items;
+      }
+      items.push(this.parseValue());
+      this.skipBlank();
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+      } else if (this.text[this.pos] !== ']') {
+        this.error('expected "," or "]" in array');
+      }
+    }
+  }
+
+  private parseInlineTable(): TomlTable {
+    this.pos++;
+    const table: TomlTable = {};
+    const raw = new Map<string, string>();
+    while (true) {
+      this.skipBlank();
+      if (this.text[this.pos] === '}') {
+        this.pos++;
+        rawMembers.set(table, raw);
+        return table;
+      }
+      const key = this.parseKey();
+      this.expect('=');
+      this.skipWhitespace();
+      const valueStart = this.pos;
+      const value = this.parseValue();
+      if (key.length === 1) {
+        raw.set(key[0], this.text.slice(valueStart, this.pos));
+      }
+      assignKey(table, key, value, () => this.error(`duplicate key "${key.join('.')}"`));
+      this.skipBlank();
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+      } else if (this.text[this.pos] !== '}') {
+        this.error('expected "," or "}" in inline table');
+      }
+    }
+  }
+
+  private parseBareValue(): TomlValue {
+    DATETIME.lastIndex = this.pos;
+    const datetime = DATETIME.exec(this.text);
+    if (datetime && !/[A-Za-z0-9_]/.test(this.text[DATETIME.lastIndex] ?? '')) {
+      this.pos = DATETIME.lastIndex;
+      return new TomlDateTime(datetime[0]);
+    }
+
+    BARE_TOKEN.lastIndex = this.pos;
+    const token = BARE_TOKEN.exec(this.text)?.[0];
+    if (!token) this.error('expected a value');
+    this.pos += token.length;
+
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (/^[+-]?inf$/.test(token)) return token.startsWith('-') ? -Infinity : Infinity;
+    if (/^[+-]?nan$/.test(token)) return NaN;
+    if (/^[+-]?(0|[1-9](_?\d)*)$/.test(token)) return Number(token.replace(/_/g, ''));
+    if (/^0x[0-9A-Fa-f](_?[0-9A-Fa-f])*$/.test(token)) return parseInt(token.slice(2).replace(/_/g, ''), 16);
+    if (/^0o[0-7](_?[0-7])*$/.test(token)) return parseInt(token.slice(2).replace(/_/g, ''), 8);
+    if (/^0b[01](_?[01])*$/.test(token)) return parseInt(token.slice(2).replace(/_/g, ''), 2);
+    if (/^[+-]?(0|[1-9](_?\d)*)(\.\d(_?\d)*)?([eE][+-]?\d(_?\d)*)?$/.test(token)) return Number(token.replace(/_/g, ''));
+    this.pos -= token.length;
+    this.error(`invalid value "${token}"`);
+  }
+}
+
+// Inline tables are complete as written, nothing can be added to them later
+function isInlineTable(value: TomlValue): boolean {
+  return isTomlTable(value) && rawMembers.has(value);
+}
+
+/**
+ * Assign a (dotted) key, tables created for the dotted parts are added to `dotted`
+ */
+function assignKey(table: TomlTable, key: string[], value: TomlValue, onDuplicate: () => never, dotted?: WeakSet<TomlTable>): void {
+  let target = table;
+  for (const part of key.slice(0, -1)) {
+    if (target[part] === undefined) {
+      target[part] = {};
+      dotted?.add(target[part] as TomlTable);
+    }
+    const next = target[part];
+    if (!isTomlTable(next) || isInlineTable(next)) onDuplicate();
+    target = next;
+  }
+  const last = key[key.length - 1];
+  if (last in target) onDuplicate();
+  target[last] = value;
+}
+
+/**
+ * Build the data of a parsed document
+ */
+function buildTable(statements: Statement[]): TomlTable {
+  const root: TomlTable = {};
+  const defined = new Set<string>();
+  // Tables defined by dotted keys, they can get subtables but no [header] of their own
+  const dotted = new WeakSet<TomlTable>();
+  let current = root;
+
+  const descend = (path: string[]): TomlTable => {
+    let target = root;
+    for (const part of path) {
+      if (target[part] === undefined) target[part] = {};
+      let next = target[part];
+      // Arrays of tables continue in their last element
+      if (Array.isArray(next)) next = next[next.length - 1];
+      if (!isTomlTable(next)) throw new Error(`Invalid TOML: "${path.join('.')}" is not a table`);
+      if (isInlineTable(next)) throw new Error(`Invalid TOML: table [${path.join('.')}] is already defined by an inline table`);
+      target = next;
+    }
+    return target;
+  };
+
+  for (const statement of statements) {
+    if (statement.kind === 'table') {
+      const id = JSON.stringify(statement.path);
+      if (defined.has(id)) throw new Error(`Invalid TOML: table [${statement.path.join('.')}] is defined twice`);
+      defined.add(id);
+      current = descend(statement.path);
+      if (dotted.has(current)) throw new Error(`Invalid TOML: table [${statement.path.join('.')}] is already defined by dotted keys`);
+    } else if (statement.kind === 'arrayTable') {
+      const parent = descend(statement.path.slice(0, -1));
+      const name = statement.path[statement.path.length - 1];
+      if (parent[name] === undefined) parent[name] = [];
+      const tables = parent[name];
+      if (!Array.isArray(tables)) throw new Error(`Invalid TOML: "${statement.path.join('.')}" is not an array of tables`);
+      current = {};
+      tables.push(current);
+    } else {
+      assignKey(current, statement.key, statement.value!, () => {
+        throw new Error(`Invalid TOML: "${statement.path.join('.')}" is defined twice`);
+      }, dotted);
+    }
+  }
+
+  return root;
+}
+
+function formatKeyPart(part: string): string {
+  return BARE_KEY.test(part) ? part : formatString(part);
+}
+
+export function formatTomlKey(path: string[]): string {
+  return path.map(formatKeyPart).join('.');
+}
+
+function formatString(value: string): string {
+  const escaped = value.replace(/[\\"\u0000-\u001f\u007f]/g, char => {
+    const short: Record<string, string> = { '\\': '\\\\', '"': '\\"', '\b': '\\b', '\t': '\\t', '\n': '\\n', '\f': '\\f', '\r': '\\r' };
+    return short[char] ?? `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`;
+  });
+  return `"${escaped}"`;
+}
+
+/**
+ * Write a value as TOML (strings are always escaped basic strings, tables are inline tables)
+ */
+export function formatTomlValue(value: TomlValue): string {
+  if (typeof value === 'string') return formatString(value);
+  if (typeof value === 'boolean') return String(value);
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) return 'nan';
+    if (!Number.isFinite(value)) return value > 0 ? 'inf' : '-inf';
+    return String(value);
+  }
+  if (value instanceof TomlDateTime) return value.text;
+  if (Array.isArray(value)) return `[${value.map(formatTomlValue).join(', ')}]`;
+
+  const raw = rawMembers.get(value);
+  const members = Object.entries(value).map(([key, member]) => `${formatKeyPart(key)} = ${raw?.get(key) ?? formatTomlValue(member)}`);
+  return members.length === 0 ? '{}' : `{ ${members.join(', ')} }`;
+}
+
+/**
+ * A TOML file that can be read and edited in place
+ * Throws on construction when the text is not valid TOML
+ */
+export class TomlDocument {
+  private text: string;
+  private statements: Statement[] = [];
+  private data: TomlTable = {};
+
+  constructor(text: string) {
+    this.text = text;
+    this.parse();
+  }
+
+  private parse(): void {
+    this.statements = new Parser(this.text).parseDocument();
+    this.data = buildTable(this.statements);
+  }
+
+  private splice(start: number, end: number, insert: string): void {
+    this.text = this.text.slice(0, start) + insert + this.text.slice(end);
+    this.parse();
+  }
+
+  private get eol(): string {
+    return this.text.includes('\r\n') ? '\r\n' : '\n';
+  }
+
+  toString(): string {
+    return this.text;
+  }
+
+  /**
+   * The value at a key path, undefined when it is not defined
+   */
+  get(path: string[]): TomlValue | undefined {
+    let value: TomlValue | undefined = this.data;
+    for (const part of path) {
+      if (!isTomlTable(value)) return undefined;
+      value = value[part];
+    }
+    return value;
+  }
+
+  private keyValue(path: string[]): Statement | undefined {
+    return this.statements.find(statement => statement.kind === 'keyValue' && !statement.inArrayTable && samePath(statement.path, path));
+  }
+
+  private header(path: string[]): Statement | undefined {
+    return this.statements.find(statement => statement.kind === 'table' && samePath(statement.path, path));
+  }
+
+  // The key/value holding an inline table that contains the path
+  private inlineHolder(path: string[]): Statement | undefined {
+    return this.statements.find(statement =>
+      statement.kind === 'keyValue' && !statement.inArrayTable && statement.path.length < path.length && isPrefix(statement.path, path));
+  }
+
+  // The last line of a table: its last key/value, or the header itself
+  private tableEnd(header: Statement): Statement {
+    const idx = this.statements.indexOf(header);
+    let last = header;
+    for (const statement of this.statements.slice(idx + 1)) {
+      if (statement.kind !== 'keyValue') break;
+      last = statement;
+    }
+    return last;
+  }
+
+  private lineIndent(statement: Statement): string {
+    return /^[ \t]*/.exec(this.text.slice(statement.start))![0];
+  }
+
+  private insertAfter(statement: Statement, line: string, indent: string): void {
+    const atEnd = statement.end === this.text.length && !this.text.endsWith('\n');
+    this.splice(statement.end, statement.end, atEnd ? `${this.eol}${indent}${line}` : `${indent}${line}${this.eol}`);
+  }
+
+  /**
+   * Set a value, keeping everything around it
+   * An existing value is replaced where it is, a new key goes at the end of its table
+   * (or into an inline table, or a new [table] when there is no table to put it in)
+   * Setting a table merges it key by key into an existing table
+   */
+  set(path: string[], value: TomlValue): void {
+    const existing = this.keyValue(path);
+    if (existing) {
+      this.splice(existing.valueStart, existing.valueEnd, formatTomlValue(value));
+      return;
+    }
+
+    const holder = this.inlineHolder(path);
+    if (holder) {
+      let target = holder.value;
+      for (const part of path.slice(holder.path.length, -1)) {
+        if (!isTomlTable(target)) break;
+        rawMembers.get(target)?.delete(part);
+        if (target[part] === undefined) target[part] = {};
+        target = target[part];
+      }
+      if (!isTomlTable(target)) {
+        throw new Error(`Cannot set ${formatTomlKey(path)}: ${formatTomlKey(holder.path)} is not a table`);
+      }
+      rawMembers.get(target)?.delete(path[path.length - 1]);
+      target[path[path.length - 1]] = value;
+      this.splice(holder.valueStart, holder.valueEnd, formatTomlValue(holder.value!));
+      return;
+    }
+
+    const current = this.get(path);
+    if (current !== undefined) {
+      if (isTomlTable(current) && isTomlTable(value)) {
+        for (const [key, member] of Object.entries(value)) {
+          this.set([...path, key], member);
+        }
+        return;
+      }
+      throw new Error(`Cannot set ${formatTomlKey(path)}: it is an array of tables`);
+    }
+
+    this.insert(path, value);
+  }
+
+  private insert(path: string[], value: TomlValue): void {
+    const parent = path.slice(0, -1);
+    const key = path[path.length - 1];
+
+    // At the end of the parent's own table
+    const header = this.header(parent);
+    if (header || parent.length === 0) {
+      const line = `${formatKeyPart(key)} = ${formatTomlValue(value)}`;
+      if (header) {
+        const last = this.tableEnd(header);
+        this.insertAfter(last, line, last === header ? '' : this.lineIndent(last));
+        return;
+      }
+      const rootKeys = this.statements.filter(statement => statement.kind === 'keyValue' && statement.table.length === 0);
+      if (rootKeys.length > 0) {
+        const last = rootKeys[rootKeys.length - 1];
+        this.insertAfter(last, line, this.lineIndent(last));
+      } else {
+        this.splice(0, 0, `${line}${this.eol}${this.statements.length > 0 ? this.eol : ''}`);
+      }
+      return;
+    }
+
+    // Next to the dotted keys that define the parent, or the closest table above it
+    for (let depth = parent.length; depth > 0; depth--) {
+      const ancestor = parent.slice(0, depth);
+      if (this.header(ancestor)) break;
+      const dotted = this.statements.filter(statement =>
+        statement.kind === 'keyValue' && !statement.inArrayTable &&
+        statement.table.length < depth && statement.path.length > depth && isPrefix(ancestor, statement.path));
+      if (dotted.length > 0) {
+        const last = dotted[dotted.length - 1];
+        const line = `${formatTomlKey(path.slice(last.table.length))} = ${formatTomlValue(value)}`;
+        this.insertAfter(last, line, this.lineIndent(last));
+        return;
+      }
+    }
+
+    // As an inline table, when the parent is missing but its own parent is a [table]
+    const grandparent = parent.slice(0, -1);
+    if (this.get(parent) === undefined && grandparent.length > 0 && this.header(grandparent)) {
+      this.set(parent, { [key]: value });
+      return;
+    }
+
+    this.ensureTable(parent);
+    this.insert(path, value);
+  }
+
+  /**
+   * Make sure a table exists, adding a [table] header when it doesn't
+   * The new table goes after its sibling tables (e.g. the other [mcp_servers.*]), or at the end of the file
+   */
+  ensureTable(path: string[]): void {
+    const current = this.get(path);
+    if (current !== undefined && !isTomlTable(current)) {
+      throw new Error(`Cannot create table ${formatTomlKey(path)}: the key already has a value`);
+    }
+    // Arrays of tables above the path are fine, the table goes into their last element
+    const blocking = path.slice(0, -1).map((_, idx) => path.slice(0, idx + 1)).find(prefix => {
+      const value = this.get(prefix);
+      return value !== undefined && !isTomlTable(value) && !Array.isArray(value);
+    });
+    if (blocking) {
+      throw new Error(`Cannot create table ${formatTomlKey(path)}: ${formatTomlKey(blocking)} is not a table`);
+    }
+
+    // Inside an inline table (e.g. mcp_servers = { ... }) a header would redefine it,
+    // the table is added to the inline table when its first key is set
+    if (this.inlineHolder(path)) {
+      return;
+    }
+
+    if (current !== undefined) {
+      if (this.header(path) || this.inlineHolder([...path, '']) || this.keyValue(path)) {
+        return;
+      }
+      // Defined only through its subtables or dotted keys, it can still get a header of its own
+      if (this.statements.some(statement => statement.kind === 'keyValue' && isPrefix(path, statement.path))) {
+        return;
+      }
+    }
+
+    const prefix = path.slice(0, -1);
+    const siblings = prefix.length > 0
+      ? this.statements.filter(statement => statement.kind !== 'keyValue' && isPrefix(prefix, statement.path))
+      : [];
+    const offset = siblings.length > 0 ? this.tableEnd(siblings[siblings.length - 1]).end : this.text.length;
+
+    const before = this.text.slice(0, offset);
+    const after = this.text.slice(offset);
+    let insert = '';
+    if (before.length > 0 && !before.endsWith('\n')) insert += this.eol;
+    if (before.trim().length > 0 && !/(^|\n)[ \t]*\r?\n$/.test(before + (before.endsWith('\n') ? '' : '\n'))) insert += this.eol;
+    insert += `[${formatTomlKey(path)}]${this.eol}`;
+    if (after.length > 0 && !/^[ \t]*\r?\n/.test(after)) insert += this.eol;
+    this.splice(offset, offset, insert);
+  }
+
+  /**
+   * Remove a key or a table with all its subtables
+   * Comments before the next table and the rest of the file are left alone
+   * Returns false when there was nothing to remove
+   */
+  delete(path: string[]): boolean {
+    const holder = this.inlineHolder(path);
+    if (holder && isTomlTable(holder.value)) {
+      let target: TomlValue | undefined = holder.value;
+      for (const part of path.slice(holder.path.length, -1)) {
+        if (!isTomlTable(target)) return false;
+        rawMembers.get(target)?.delete(part);
+        target = target[part];
+      }
+      const last = path[path.length - 1];
+      if (!isTomlTable(target) || !(last in target)) return false;
+      delete target[last];
+      this.splice(holder.valueStart, holder.valueEnd, formatTomlValue(holder.value));
+      return true;
+    }
+
+    const ranges: Array<[number, number]> = [];
+    for (const statement of this.statements) {
+      if (statement.kind !== 'keyValue' && isPrefix(path, statement.path)) {
+        ranges.push([statement.start, this.tableEnd(statement).end]);
+      } else if (statement.kind === 'keyValue' && !isPrefix(path, statement.table) && isPrefix(path, statement.path)) {
+        ranges.push([statement.start, statement.end]);
+      }
+    }
+    if (ranges.length === 0) {
+      return false;
+    }
+
+    ranges.sort((a, b) => b[0] - a[0]);
+    let text = this.text;
+    for (const [start, end] of ranges) {
+      text = removeLines(text, start, end);
+    }
+    this.text = text;
+    this.parse();
+    return true;
+  }
+}
+
+/**
+ * Remove a range of whole lines without leaving a run of blank lines where it was
+ */
+function removeLines(text: string, start: number, end: number): string {
+  let before = text.slice(0, start);
+  let after = text.slice(end);
+  const blankStart = /^[ \t]*\r?\n/;
+  const previousBlank = before.length === 0 || /(^|\n)[ \t]*\r?\n$/.test(before);
+
+  if (previousBlank) {
+    while (blankStart.test(after)) after = after.replace(blankStart, '');
+  }
+  if (after.trim().length === 0) {
+    // Removed at the end of the file: drop the blank lines left before it
+    before = before.replace(/(\r?\n[ \t]*)+$/, '');
+    return before.length > 0 ? before + (text.includes('\r\n') ? '\r\n' : '\n') : '';
+  }
+  return before + after;
+}
+
+/**
+ * Parse a TOML document
+ */
+export function parseToml(text: string): TomlTable {
+  return new TomlDocument(text).get([]) as TomlTable;
+}
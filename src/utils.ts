@@ -1,8 +1,21 @@
-import { readdir, readFile, stat } from 'fs/promises';
-import { join, dirname } from 'path';
+import { readdir, readFile, stat, open } from 'fs/promises';
+import { join, dirname, resolve, delimiter, isAbsolute } from 'path';
 import { fileURLToPath } from 'url';
 import { homedir } from 'os';
 import { existsSync } from 'fs';
+import { createHash } from 'crypto';
+import { parseSkillFile, parseExecutionPolicy, ParsedSkill, SkillManifest, ExecutionPolicy } from './manifest.js';
+import { resolveExecutionPolicy, buildScriptEnv, sandboxCommand } from './sandbox.js';
+import { detectMimeType, detectMimeTypeOfContent, isTextMimeType } from './mime.js';
+import {
+  readContainedFile,
+  checkContainedFile,
+  resolveContainedPath,
+  validateSkillPath,
+  SkillPathError,
+  FileAccessOptions,
+  SYMLINK_POLICIES,
+} from './skillfs.js';
 
 // Get current file directory
 const __filename = fileURLToPath(import.meta.url);
@@ -19,6 +32,56 @@ export const USER_SETTINGS_FILE = join(homedir(), '.ai-skills-hub', 'settings.js
  */
 export interface UserSettings {
   autoExecuteScripts?: boolean;
+  skillDirs?: string[];
+  toolNaming?: ToolNamingScheme;
+  scriptPolicy?: ExecutionPolicy;
+  fileAccess?: FileAccessOptions;
+  responses?: ResponseSettings;
+  http?: HttpSettings;
+  backups?: BackupSettings;
+  mcpServer?: McpServerSettings;
+}
+
+/**
+ * Settings for skill tool and prompt responses
+ * - tokenBudget: estimated tokens above which a skill is returned as outline plus first sections
+ * - stripFrontmatter: drop the YAML frontmatter block from returned content
+ * - compactWhitespace: drop trailing spaces and collapse blank lines outside code blocks
+ */
+export interface ResponseSettings {
+  tokenBudget?: number;
+  stripFrontmatter?: boolean;
+  compactWhitespace?: boolean;
+}
+
+/**
+ * Settings for `skillshub serve --http`
+ * - authToken: when set, every request must send `Authorization: Bearer <authToken>`
+ * - sessionIdleTimeoutSec: Streamable HTTP sessions without a request for this long are closed
+ */
+export interface HttpSettings {
+  host?: string;
+  port?: number;
+  authToken?: string;
+  sessionIdleTimeoutSec?: number;
+}
+
+/**
+ * Settings for agent config backups (~/.ai-skills-hub/backups)
+ * - retention: backups kept per config file, the oldest are deleted first
+ */
+export interface BackupSettings {
+  retention?: number;
+}
+
+/**
+ * Extra settings for the ai-skills-hub entry `sync` writes into agent configs
+ * - env: environment variables for the server process
+ * - startupTimeoutSec: how long the agent waits for the server to start (Codex `startup_timeout_sec`)
+ */
+export interface McpServerSettings {
+  env?: Record<string, string>;
+  startupTimeoutSec?: number;
 }
 
 /**
@@ -46,34 +109,207 @@ export async function isAutoExecuteEnabled(): Promise<boolean> {
 }
 
 /**
- * Recursively scan skills directory, return all SKILL.md file paths in subdirectories
- * Only scans ~/.ai-skills-hub/skills directory
- * Example: ['go-testing/SKILL.md', 'api-design/SKILL.md']
+ * Get the skill file access settings, ignoring invalid values
+ */
+export async function getFileAccessOptions(): Promise<FileAccessOptions> {
+  const { fileAccess } = await readUserSettings();
+  const options: FileAccessOptions = {};
+  if (fileAccess?.symlinks && SYMLINK_POLICIES.includes(fileAccess.symlinks)) {
+    options.symlinks = fileAccess.symlinks;
+  }
+  if (typeof fileAccess?.maxFileBytes === 'number' && fileAccess.maxFileBytes > 0) {
+    options.maxFileBytes = fileAccess.maxFileBytes;
+  }
+  return options;
+}
+
+// Skills directories looked up in a project (relative to the project root), in precedence order
+const PROJECT_SKILL_DIRS = [join('.ai-skills-hub', 'skills'), join('.claude', 'skills')];
+
+// Environment variable listing extra skill roots (separated by ':' or ';' on Windows)
+export const SKILLS_PATH_ENV = 'SKILLSHUB_PATH';
+
+/**
+ * A directory that skills are loaded from
+ * - project: a repo's .ai-skills-hub/skills or .claude/skills
+ * - team: directories from SKILLSHUB_PATH or the settings `skillDirs` array
+ * - user: ~/.ai-skills-hub/skills
+ */
+export interface SkillRoot {
+  kind: 'project' | 'team' | 'user';
+  dir: string;
+  source: string;
+}
+
+/**
+ * Where a skill was found
+ * - path: SKILL.md path relative to its root, also the skill's identity across roots
+ * - shadowed: lower-precedence roots that also contain this skill
+ */
+export interface SkillLocation {
+  path: string;
+  root: SkillRoot;
+  absPath: string;
+  shadowed: SkillRoot[];
+}
+
+/**
+ * Format a skill root for display, e.g. "project (/repo/.claude/skills)"
  */
-export async function scanSkillsDirectory(): Promise<string[]> {
-  const skillPaths: string[] = [];
+export function formatSkillRoot(root: SkillRoot): string {
+  const source = root.source === root.kind ? '' : `, ${root.source}`;
+  return `${root.kind}${source} (${root.dir})`;
+}
+
+/**
+ * Expand a leading `~` to the home directory
+ */
+export function expandHome(dir: string): string {
+  if (dir === '~' || dir.startsWith('~/') || dir.startsWith('~\\')) {
+    return join(homedir(), dir.slice(1));
+  }
+  return dir;
+}
+
+/**
+ * Find project skill directories by walking up from `startDir`
+ * Stops at the first directory containing a skills directory, at the git root, or at the home directory
+ */
+export function findProjectSkillDirs(startDir: string = process.cwd()): string[] {
+  const home = resolve(homedir());
+  let dir = resolve(startDir);
   
-  try {
-    if (existsSync(USER_SKILLS_DIR)) {
-      await scanDirectory(USER_SKILLS_DIR, '', skillPaths);
+  while (true) {
+    // ~/.ai-skills-hub/skills is the user root, never treat home as a project
+    if (dir === home) {
+      return [];
     }
-  } catch (error) {
-    console.error('Error scanning skills directory:', error);
+    
+    const found = PROJECT_SKILL_DIRS
+      .map(skillsDir => join(dir, skillsDir))
+      .filter(skillsDir => existsSync(skillsDir));
+    if (found.length > 0) {
+      return found;
+    }
+    
+    const parent = dirname(dir);
+    if (existsSync(join(dir, '.git')) || parent === dir) {
+      return [];
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Get all skill roots in precedence order (highest first): project, team, user
+ * Duplicate directories are only listed once, at their highest precedence
+ */
+export async function getSkillRoots(): Promise<SkillRoot[]> {
+  const settings = await readUserSettings();
+  const candidates: SkillRoot[] = [];
+  
+  for (const dir of findProjectSkillDirs()) {
+    candidates.push({ kind: 'project', dir, source: 'project' });
+  }
+  
+  const envDirs = (process.env[SKILLS_PATH_ENV] || '').split(delimiter).filter(Boolean);
+  for (const dir of envDirs) {
+    candidates.push({ kind: 'team', dir: resolve(expandHome(dir)), source: SKILLS_PATH_ENV });
   }
   
-  return skillPaths;
+  if (Array.isArray(settings.skillDirs)) {
+    for (const dir of settings.skillDirs) {
+      if (typeof dir !== 'string' || !dir.trim()) continue;
+      // Relative settings paths are resolved against ~/.ai-skills-hub
+      const expanded = expandHome(dir.trim());
+      const absolute = isAbsolute(expanded) ? expanded : join(dirname(USER_SETTINGS_FILE), expanded);
+      candidates.push({ kind: 'team', dir: resolve(absolute), source: 'settings.skillDirs' });
+    }
+  }
+  
+  candidates.push({ kind: 'user', dir: USER_SKILLS_DIR, source: 'user' });
+  
+  const seen = new Set<string>();
+  return candidates.filter(root => {
+    if (seen.has(root.dir)) {
+      return false;
+    }
+    seen.add(root.dir);
+    return true;
+  });
+}
+
+/**
+ * Scan every skill root, return each skill once with the root it is loaded from
+ * A skill in a higher-precedence root shadows the skill with the same path in lower roots
+ */
+export async function scanSkillLocations(): Promise<SkillLocation[]> {
+  const roots = await getSkillRoots();
+  const perRoot = await Promise.all(roots.map(async (root) => {
+    const skillPaths: string[] = [];
+    try {
+      if (existsSync(root.dir)) {
+        await scanDirectory(root.dir, '', skillPaths);
+      }
+    } catch (error) {
+      console.error(`Error scanning skills directory ${root.dir}:`, error);
+    }
+    return skillPaths;
+  }));
+  
+  const locations = new Map<string, SkillLocation>();
+  roots.forEach((root, idx) => {
+    for (const path of perRoot[idx]) {
+      const existing = locations.get(path);
+      if (existing) {
+        existing.shadowed.push(root);
+      } else {
+        locations.set(path, { path, root, absPath: join(root.dir, path), shadowed: [] });
+      }
+    }
+  });
+  
+  // Parallel scan completes in arbitrary order, sort for stable results
+  return Array.from(locations.values()).sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Resolve a path relative to the skill roots (e.g. go-testing/resources/guide.md)
+ * The owning skill is the deepest directory with a SKILL.md; the file is read from the
+ * highest-precedence root that contains that skill, so resources follow their SKILL.md
+ * Throws SkillPathError for paths that could escape a root (see validateSkillPath)
+ */
+export async function resolveSkillPath(relPath: string): Promise<{ root: SkillRoot; absPath: string; skillDir: string } | null> {
+  const segments = validateSkillPath(relPath);
+  const roots = await getSkillRoots();
+  
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const skillDir = segments.slice(0, i).join('/');
+    for (const root of roots) {
+      if (existsSync(join(root.dir, skillDir, 'SKILL.md'))) {
+        return { root, absPath: join(root.dir, relPath), skillDir: join(root.dir, skillDir) };
+      }
+    }
+  }
+  
+  return null;
 }
 
 /**
  * Recursively scan directory, looking for SKILL.md files
+ * Entries of a directory are stat'ed in parallel
  */
 async function scanDirectory(dir: string, relativePath: string, results: string[]): Promise<void> {
   const entries = await readdir(dir);
   
-  for (const entry of entries) {
+  await Promise.all(entries.map(async (entry) => {
     const fullPath = join(dir, entry);
     const relativeEntryPath = relativePath ? `${relativePath}/${entry}` : entry;
-    const stats = await stat(fullPath);
+    const stats = await stat(fullPath).catch(() => null);
+    if (!stats) {
+      // Broken symlink or file removed while scanning
+      return;
+    }
     
     if (stats.isDirectory()) {
       // Recursively scan subdirectories
@@ -82,7 +318,7 @@ async function scanDirectory(dir: string, relativePath: string, results: string[
       // Found SKILL.md file, add to results
       results.push(relativeEntryPath);
     }
-  }
+  }));
 }
 
 /**
@@ -105,6 +341,141 @@ export function filenameToToolName(path: string): string {
   return toolName;
 }
 
+/**
+ * Tool naming scheme (settings `toolNaming`)
+ * - short: last directory name only (go-testing/SKILL.md -> go_testing), namespaced only on collision
+ * - namespaced: full directory path joined by `__` (backend/testing/SKILL.md -> backend__testing)
+ */
+export type ToolNamingScheme = 'short' | 'namespaced';
+
+// Most MCP clients reject tool names longer than 64 characters
+export const MAX_TOOL_NAME_LENGTH = 64;
+
+// Separator between path segments in namespaced tool names
+const NAMESPACE_SEPARATOR = '__';
+
+// Tool names of the server's built-in tools, skills never get these names
+export const SEARCH_TOOL_NAME = 'search_skills';
+export const RUN_SCRIPT_TOOL_NAME = 'run_skill_script';
+export const READ_SECTION_TOOL_NAME = 'read_skill_section';
+export const BUILT_IN_TOOL_NAMES = new Set([SEARCH_TOOL_NAME, RUN_SCRIPT_TOOL_NAME, READ_SECTION_TOOL_NAME]);
+
+/**
+ * Convert file path to namespaced tool name
+ * Example: backend/testing/SKILL.md -> backend__testing
+ */
+export function filenameToNamespacedToolName(path: string): string {
+  const basePath = path.replace(/\/?SKILL\.md$/, '').replace(/\.md$/, '');
+  return basePath
+    .split('/')
+    .filter(Boolean)
+    .map(segment => segment.replace(/[^a-z0-9]+/gi, '_').toLowerCase())
+    .join(NAMESPACE_SEPARATOR);
+}
+
+/**
+ * Short, stable hash of a skill path, used to disambiguate tool names
+ */
+function pathHash(path: string): string {
+  return createHash('sha1').update(path).digest('hex').slice(0, 8);
+}
+
+/**
+ * Keep a tool name within MAX_TOOL_NAME_LENGTH, replacing the overflow with a path hash
+ */
+function fitToolName(toolName: string, path: string): string {
+  if (toolName.length <= MAX_TOOL_NAME_LENGTH) {
+    return toolName;
+  }
+  const hash = pathHash(path);
+  return `${toolName.slice(0, MAX_TOOL_NAME_LENGTH - hash.length - 1)}_${hash}`;
+}
+
+/**
+ * Tool name assigned to a skill, with the other skills that wanted the same name
+ */
+export interface ToolNameAssignment {
+  toolName: string;
+  conflicts: string[];
+}
+
+/**
+ * Assign a unique tool name to every skill path, deterministically
+ * 1. Every path gets its name under the scheme (short or namespaced)
+ * 2. In short mode, paths sharing a name (or using a reserved name) fall back to namespaced names
+ * 3. Names that still collide get a path hash suffix
+ * The result only depends on the set of paths, never on scan order
+ */
+export function assignToolNames(
+  paths: string[],
+  scheme: ToolNamingScheme = 'short',
+  reserved: Set<string> = new Set()
+): Map<string, ToolNameAssignment> {
+  const sortedPaths = [...paths].sort();
+  const groupBy = (names: Map<string, string>) => {
+    const groups = new Map<string, string[]>();
+    for (const path of sortedPaths) {
+      const name = names.get(path)!;
+      groups.set(name, [...(groups.get(name) || []), path]);
+    }
+    return groups;
+  };
+  
+  const baseNames = new Map<string, string>();
+  for (const path of sortedPaths) {
+    const name = scheme === 'namespaced' ? filenameToNamespacedToolName(path) : filenameToToolName(path);
+    baseNames.set(path, fitToolName(name, path));
+  }
+  const baseGroups = groupBy(baseNames);
+  
+  const names = new Map(baseNames);
+  if (scheme === 'short') {
+    for (const [name, group] of baseGroups) {
+      if (group.length > 1 || reserved.has(name)) {
+        for (const path of group) {
+          names.set(path, fitToolName(filenameToNamespacedToolName(path), path));
+        }
+      }
+    }
+  }
+  
+  for (const [name, group] of groupBy(names)) {
+    if (group.length > 1 || reserved.has(name)) {
+      for (const path of group) {
+        const hash = pathHash(path);
+        names.set(path, `${name.slice(0, MAX_TOOL_NAME_LENGTH - hash.length - 1)}_${hash}`);
+      }
+    }
+  }
+  
+  const assignments = new Map<string, ToolNameAssignment>();
+  for (const path of sortedPaths) {
+    const group = baseGroups.get(baseNames.get(path)!) || [];
+    assignments.set(path, {
+      toolName: names.get(path)!,
+      conflicts: group.filter(other => other !== path),
+    });
+  }
+  return assignments;
+}
+
+/**
+ * Tool names of the scanned skills under the configured scheme, with the built-in names reserved
+ * The server, list, check, remove and run_skill_script all go through this, so a tool name
+ * resolves to the same skill everywhere
+ */
+export async function assignSkillToolNames(locations: SkillLocation[]): Promise<Map<string, ToolNameAssignment>> {
+  return assignToolNames(locations.map(location => location.path), await getToolNamingScheme(), BUILT_IN_TOOL_NAMES);
+}
+
+/**
+ * Get the configured tool naming scheme (defaults to short)
+ */
+export async function getToolNamingScheme(): Promise<ToolNamingScheme> {
+  const settings = await readUserSettings();
+  return settings.toolNaming === 'namespaced' ? 'namespaced' : 'short';
+}
+
 /**
  * Convert tool name back to file path
  * Since hyphens in filenames are converted to underscores, we need to scan actual files to find matching path
@@ -112,19 +483,39 @@ export function filenameToToolName(path: string): string {
  */
 export async function toolNameToFilename(toolName: string): Promise<string | null> {
   // Scan skills directory, find all SKILL.md files
-  const files = await scanSkillsDirectory();
+  const assignments = await assignSkillToolNames(await scanSkillLocations());
   
   // Find path matching tool name
-  for (const filepath of files) {
-    const expectedToolName = filenameToToolName(filepath);
-    if (expectedToolName === toolName) {
+  for (const [filepath, assignment] of assignments) {
+    if (assignment.toolName === toolName) {
       return filepath;
     }
   }
   
   // If not found, try simple conversion (convert underscores back to hyphens)
-  const baseName = toolName.replace(/_/g, '-');
-  return `${baseName}/SKILL.md`;
+  const filepath = `${toolName.replace(/_/g, '-')}/SKILL.md`;
+  try {
+    validateSkillPath(filepath);
+  } catch {
+    return null;
+  }
+  return filepath;
+}
+
+/**
+ * Find a skill by directory name (go-testing, backend/testing) or tool name (go_testing)
+ * Directory names are matched first, then tool names the way toolNameToFilename resolves them
+ */
+export async function findSkillLocation(nameOrToolName: string): Promise<SkillLocation | null> {
+  const locations = await scanSkillLocations();
+  const dirName = nameOrToolName.replace(/\/+$/, '').replace(/\/SKILL\.md$/, '');
+  const byDirectory = locations.find(location => location.path === `${dirName}/SKILL.md`);
+  if (byDirectory) {
+    return byDirectory;
+  }
+
+  const filepath = await toolNameToFilename(nameOrToolName);
+  return locations.find(location => location.path === filepath) ?? null;
 }
 
 /**
@@ -134,243 +525,297 @@ export async function toolNameToFilename(toolName: string): Promise<string | nul
  */
 export async function readSkillFile(filepath: string): Promise<string> {
   try {
-    const filePath = join(USER_SKILLS_DIR, filepath);
-    const content = await readFile(filePath, 'utf-8');
-    return content;
+    const resolved = await resolveSkillPath(filepath);
+    if (!resolved) {
+      throw new Error('not found in any skill root');
+    }
+    const content = await readContainedFile(resolved.root.dir, filepath, await getFileAccessOptions());
+    return content.toString('utf-8');
   } catch (error) {
+    if (error instanceof SkillPathError) {
+      throw error;
+    }
     throw new Error(`Failed to read skill file: ${filepath}. ${error}`);
   }
 }
 
 /**
  * Resource file information (for indexing)
+ * filename is relative to the resources directory and may include subdirectories (e.g. schemas/api.json)
  */
 export interface ResourceInfo {
   filename: string;
   description: string;
+  mimeType: string;
 }
 
 /**
- * Read index information of all .md files in the resources directory under skill directory
- * Only reads filename and description, not full content (to save tokens)
- * filepath example: go-testing/SKILL.md
- * Only reads from ~/.ai-skills-hub/skills directory
+ * List files in a skill's resources directory (absolute path), including nested subdirectories
+ * Returns paths relative to the resources directory, sorted; hidden files and directories are skipped
+ * Returns empty array if the skill has no resources directory
  */
-export async function readSkillResourcesIndex(filepath: string): Promise<ResourceInfo[]> {
-  const resources: ResourceInfo[] = [];
-  
+export async function listSkillResourceFiles(resourcesDir: string): Promise<string[]> {
   try {
-    // Get skill directory path (e.g.: go-testing)
-    const skillDir = filepath.replace(/\/SKILL\.md$/, '');
-    const resourcesDir = join(USER_SKILLS_DIR, skillDir, 'resources');
-    
     // Check if resources directory exists
     try {
       const stats = await stat(resourcesDir);
       if (!stats.isDirectory()) {
-        return resources; // Not a directory, return empty array
+        return []; // Not a directory, return empty array
       }
     } catch {
       // resources directory does not exist, return empty array
-      return resources;
+      return [];
     }
     
-    // Read all files in resources directory
-    const entries = await readdir(resourcesDir);
-    
-    // Only process .md files
-    const mdFiles = entries.filter(entry => entry.endsWith('.md'));
-    
-    // Sort by filename to ensure consistent order
-    mdFiles.sort();
-    
-    // Read index information for each file (only read first few lines to extract description)
-    for (const filename of mdFiles) {
-      try {
-        const resourcePath = join(resourcesDir, filename);
-        // Only read first 50 lines to extract description (usually frontmatter and title are in first few lines)
-        const content = await readFile(resourcePath, 'utf-8');
-        const description = getSkillDescription(content, filename);
-        resources.push({ filename, description });
-      } catch (error) {
-        // If read fails, skip the file and log error
-        console.error(`Error reading resource file ${filename}:`, error);
+    const files: string[] = [];
+    const walk = async (relativeDir: string) => {
+      const entries = await readdir(join(resourcesDir, relativeDir), { withFileTypes: true });
+      for (const entry of entries) {
+        if (entry.name.startsWith('.')) continue;
+        const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          await walk(relativePath);
+        } else if (entry.isFile()) {
+          files.push(relativePath);
+        }
       }
-    }
+    };
+    await walk('');
+    
+    // Sort by path to ensure consistent order
+    return files.sort();
   } catch (error) {
     // If reading resources directory fails, only log error but don't throw exception
     // This way skill can still work normally even without resources directory
-    console.error(`Error reading resources directory for ${filepath}:`, error);
+    console.error(`Error reading resources directory ${resourcesDir}:`, error);
+    return [];
   }
-  
-  return resources;
 }
 
+// Frontmatter and title are usually within the first few KB of a file
+const DESCRIPTION_HEAD_BYTES = 8 * 1024;
+
 /**
- * Scan all skills and resources files, return complete resource list
- * Used for resources/list request
+ * Read at most `maxBytes` from the start of a file
+ * A multi-byte character cut at the boundary is dropped
  */
-export async function scanAllResources(): Promise<Array<{ uri: string; path: string; description: string }>> {
-  const resources: Array<{ uri: string; path: string; description: string }> = [];
-  
+export async function readFileHead(filePath: string, maxBytes: number): Promise<{ content: string; truncated: boolean }> {
+  const handle = await open(filePath, 'r');
   try {
-    // First scan all SKILL.md files
-    const skillFiles = await scanSkillsDirectory();
-    
-    for (const skillPath of skillFiles) {
-      try {
-        // Read SKILL.md to get description
-        const content = await readSkillFile(skillPath);
-        const description = getSkillDescription(content, skillPath);
-        
-        // Build URI, format: skill://<skill-name>/SKILL.md
-        const skillName = skillPath.replace(/\/SKILL\.md$/, '');
-        const uri = `skill://${skillName}/SKILL.md`;
-        
-        resources.push({
-          uri,
-          path: skillPath,
-          description,
-        });
-        
-        // Scan resources files under this skill directory
-        const resourcesIndex = await readSkillResourcesIndex(skillPath);
-        for (const resource of resourcesIndex) {
-          const resourceUri = `skill://${skillName}/resources/${resource.filename}`;
-          const resourcePath = skillPath.replace(/SKILL\.md$/, `resources/${resource.filename}`);
-          resources.push({
-            uri: resourceUri,
-            path: resourcePath,
-            description: resource.description,
-          });
-        }
-      } catch (error) {
-        console.error(`Error processing skill ${skillPath}:`, error);
-      }
-    }
-  } catch (error) {
-    console.error('Error scanning all resources:', error);
+    const buffer = Buffer.alloc(maxBytes + 1);
+    const { bytesRead } = await handle.read(buffer, 0, maxBytes + 1, 0);
+    const truncated = bytesRead > maxBytes;
+    const content = buffer.subarray(0, Math.min(bytesRead, maxBytes)).toString('utf-8').replace(/\uFFFD$/, '');
+    return { content, truncated };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Extract description of a resource file (relPath inside rootDir) without reading the whole file
+ * Falls back to a full read only when the frontmatter block doesn't fit in the head
+ */
+export async function readResourceDescription(
+  rootDir: string,
+  relPath: string,
+  filename: string,
+  options: FileAccessOptions
+): Promise<string> {
+  const { path: filePath } = await checkContainedFile(rootDir, relPath, options);
+  const head = await readFileHead(filePath, DESCRIPTION_HEAD_BYTES);
+  let parsed = parseSkillFile(head.content);
+  
+  if (head.truncated && !parsed.hasFrontmatter && head.content.trimStart().startsWith('---')) {
+    parsed = parseSkillFile((await readContainedFile(rootDir, relPath, options)).toString('utf-8'));
   }
   
-  return resources;
+  return describeSkill(parsed, filename);
+}
+
+/**
+ * Build index information of a resource file (relPath inside rootDir)
+ * Markdown files are described by their frontmatter or title, other files by their MIME type
+ * Goes through the file access layer, so rejected files (symlink policy, size cap) throw SkillPathError
+ */
+export async function readResourceInfo(
+  rootDir: string,
+  relPath: string,
+  filename: string,
+  options: FileAccessOptions
+): Promise<ResourceInfo> {
+  const { path: filePath } = await checkContainedFile(rootDir, relPath, options);
+  const mimeType = await detectMimeType(filePath);
+  const description = mimeType === 'text/markdown'
+    ? await readResourceDescription(rootDir, relPath, filename, options)
+    : `${mimeType} file`;
+  return { filename, description, mimeType };
+}
+
+/**
+ * Content of a resource: text files are returned as `text`, binary files as base64 `blob`
+ */
+export interface ResourceContent {
+  mimeType: string;
+  text?: string;
+  blob?: string;
 }
 
 /**
  * Read resource file from URI
- * URI format: skill://<skill-name>/SKILL.md or skill://<skill-name>/resources/<filename>
- * Only reads from ~/.ai-skills-hub/skills directory
+ * URI format: skill://<skill-name>/<path>, e.g. skill://<skill-name>/SKILL.md or
+ * skill://<skill-name>/resources/schemas/api.json (any file inside the skill directory)
  */
-export async function readResourceByUri(uri: string): Promise<string> {
+export async function readResourceByUri(uri: string): Promise<ResourceContent> {
   // Validate URI format
   if (!uri.startsWith('skill://')) {
     throw new Error(`Invalid resource URI: ${uri}. Must start with 'skill://'`);
   }
   
-  // Remove 'skill://' prefix
-  const path = uri.substring('skill://'.length);
-  const filePath = join(USER_SKILLS_DIR, path);
-  
   try {
-    const content = await readFile(filePath, 'utf-8');
-    return content;
+    // Remove 'skill://' prefix, percent-encoded segments are decoded before validation
+    const path = decodeURIComponent(uri.substring('skill://'.length));
+    
+    const resolved = await resolveSkillPath(path);
+    if (!resolved) {
+      throw new Error('not found in any skill root');
+    }
+    const content = await readContainedFile(resolved.root.dir, path, await getFileAccessOptions());
+    const mimeType = detectMimeTypeOfContent(path, content);
+    return isTextMimeType(mimeType)
+      ? { mimeType, text: content.toString('utf-8') }
+      : { mimeType, blob: content.toString('base64') };
   } catch (error) {
+    if (error instanceof SkillPathError) {
+      throw error;
+    }
+    if (error instanceof URIError) {
+      throw new SkillPathError(`Malformed resource URI: ${uri}`);
+    }
     throw new Error(`Failed to read resource: ${uri}. ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
 /**
- * Extract description from Markdown content
- * Prioritize extracting description from YAML frontmatter, otherwise use title or first line
+ * Resolve description for an already parsed skill or resource file
  */
-export function getSkillDescription(content: string, filepath: string): string {
-  const lines = content.split('\n');
-  
-  if (lines.length === 0) {
-    // If file is empty, use path as description
-    const basePath = filepath.replace(/\/SKILL\.md$/, '').replace(/\.md$/, '');
-    const parts = basePath.split('/');
-    const name = parts[parts.length - 1];
-    return name.replace(/[-_]/g, ' ');
-  }
-  
-  // Try to extract description from YAML frontmatter
-  // frontmatter may start from first or second line (first line may be empty)
-  const firstNonEmptyLineIdx = lines.findIndex(line => line.trim());
-  if (firstNonEmptyLineIdx >= 0 && lines[firstNonEmptyLineIdx].trim() === '---') {
-    // Start searching from second line of frontmatter (skip first ---)
-    for (let i = firstNonEmptyLineIdx + 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (line === '---') {
-        // frontmatter ended, break
-        break;
-      }
-      // Match description: "..." or description: ...
-      const descriptionMatch = line.match(/^description:\s*(.+)$/i);
-      if (descriptionMatch) {
-        let desc = descriptionMatch[1].trim();
-        // Remove quotes
-        if ((desc.startsWith('"') && desc.endsWith('"')) || 
-            (desc.startsWith("'") && desc.endsWith("'"))) {
-          desc = desc.slice(1, -1);
-        }
-        return desc;
-      }
-    }
-  }
-  
-  // If no YAML frontmatter or description not found, extract from Markdown content
-  const nonEmptyLines = lines.filter(line => line.trim());
-  if (nonEmptyLines.length === 0) {
-    const basePath = filepath.replace(/\/SKILL\.md$/, '').replace(/\.md$/, '');
-    const parts = basePath.split('/');
-    const name = parts[parts.length - 1];
-    return name.replace(/[-_]/g, ' ');
-  }
-  
-  // Skip frontmatter, find first Markdown content line
-  let startIdx = 0;
-  if (firstNonEmptyLineIdx >= 0 && lines[firstNonEmptyLineIdx].trim() === '---') {
-    for (let i = firstNonEmptyLineIdx + 1; i < lines.length; i++) {
-      if (lines[i].trim() === '---') {
-        startIdx = i + 1;
-        break;
-      }
-    }
+export function describeSkill(parsed: ParsedSkill, filepath: string): string {
+  if (parsed.manifest.description) {
+    return parsed.manifest.description;
   }
-  
-  // Find first non-empty line
-  for (let i = startIdx; i < lines.length; i++) {
-    const line = lines[i].trim();
+
+  // Find first non-empty line of Markdown content
+  for (const rawLine of parsed.body.split('\n')) {
+    const line = rawLine.trim();
     if (!line) continue;
-    
+
     // If it's a Markdown heading, extract heading text
     if (line.startsWith('# ')) {
       return line.slice(2).trim();
     }
-    
+
     // If it's another format of heading
     if (line.startsWith('## ')) {
       return line.slice(3).trim();
     }
-    
+
     // Otherwise use first line as description (limit length)
     const maxLength = 100;
     if (line.length > maxLength) {
       return line.slice(0, maxLength) + '...';
     }
-    
+
     return line;
   }
-  
-  // If no content found, use path as description
+
+  // If no content found, use manifest name or path as description
+  if (parsed.manifest.name) {
+    return parsed.manifest.name;
+  }
   const basePath = filepath.replace(/\/SKILL\.md$/, '').replace(/\.md$/, '');
   const parts = basePath.split('/');
   const name = parts[parts.length - 1];
   return name.replace(/[-_]/g, ' ');
 }
 
+/**
+ * Loaded skill: parsed manifest plus derived names
+ */
+export interface LoadedSkill {
+  path: string;
+  toolName: string;
+  description: string;
+  manifest: SkillManifest;
+  body: string;
+  content: string;
+  errors: string[];
+}
+
+/**
+ * Read and parse a SKILL.md file into its manifest
+ * Frontmatter errors are returned in `errors`, read failures are thrown
+ */
+export async function loadSkill(filepath: string): Promise<LoadedSkill> {
+  const content = await readSkillFile(filepath);
+  const parsed = parseSkillFile(content);
+
+  return {
+    path: filepath,
+    toolName: filenameToToolName(filepath),
+    description: describeSkill(parsed, filepath),
+    manifest: parsed.manifest,
+    body: parsed.body,
+    content,
+    errors: parsed.errors,
+  };
+}
+
+/**
+ * List the scripts of a skill, as paths relative to the skill directory (e.g. 'scripts/test.sh')
+ * Subdirectories of scripts/ are included, hidden files are skipped
+ */
+export async function listSkillScripts(skillDir: string): Promise<string[]> {
+  const scripts: string[] = [];
+
+  const walk = async (relativeDir: string) => {
+    const entries = await readdir(join(skillDir, relativeDir), { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const relativePath = `${relativeDir}/${entry.name}`;
+      if (entry.isDirectory()) {
+        await walk(relativePath);
+      } else if (entry.isFile()) {
+        scripts.push(relativePath);
+      }
+    }
+  };
+
+  await walk('scripts');
+  return scripts.sort();
+}
+
+/**
+ * Outcome of a script run
+ * - exitCode: null when the script was killed by a signal
+ * - signal: the signal that ended the script, if any
+ * - timedOut: the script ran longer than the policy's timeout and was killed
+ * - truncated: stdout or stderr exceeded the policy's max output
+ * - error: human-readable reason when the script didn't exit normally
+ */
+export interface ScriptExecutionResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  truncated: boolean;
+  error?: string;
+}
+
 /**
  * Execute a shell script in a skill directory
+ * The skill's `execution` policy, tightened by `scriptPolicy` in settings.json,
+ * decides the environment, working directory, limits and sandboxing
  * @param skillName - The name of the skill (e.g., 'go-testing')
  * @param scriptPath - The relative path to the script within the skill directory (e.g., 'scripts/test.sh')
  * @param args - Optional arguments to pass to the script
@@ -380,89 +825,131 @@ export async function executeSkillScript(
   skillName: string,
   scriptPath: string,
   args: string[] = []
-): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+): Promise<ScriptExecutionResult> {
   const { spawn } = await import('child_process');
-  const { resolve, normalize } = await import('path');
-  
-  // Find the actual skill directory (handle underscore to hyphen conversion)
-  let skillDir = join(USER_SKILLS_DIR, skillName);
   
-  // If directory doesn't exist with underscores, try finding it by scanning
-  if (!existsSync(skillDir)) {
-    // Try converting underscores to hyphens
-    const alternativeName = skillName.replace(/_/g, '-');
-    const alternativeDir = join(USER_SKILLS_DIR, alternativeName);
-    
-    if (existsSync(alternativeDir)) {
-      skillDir = alternativeDir;
-    } else {
-      // Scan directory to find matching skill
-      try {
-        const entries = await readdir(USER_SKILLS_DIR);
-        for (const entry of entries) {
-          const entryPath = join(USER_SKILLS_DIR, entry);
-          const stats = await stat(entryPath);
-          if (stats.isDirectory()) {
-            // Check if this directory name matches when converted to tool name
-            const normalizedEntry = entry.replace(/[^a-z0-9]+/gi, '_').toLowerCase();
-            if (normalizedEntry === skillName.toLowerCase()) {
-              skillDir = entryPath;
-              break;
-            }
-          }
-        }
-      } catch (error) {
-        // If scanning fails, continue with original error
-      }
+  // Find the actual skill directory across all skill roots
+  // Matches the skill directory name directly or by tool name (handle underscore to hyphen conversion)
+  let skillDir = '';
+  let skillFile = '';
+  let scriptRelPath = '';
+  let rootDir = '';
+  const locations = await scanSkillLocations();
+  const assignments = await assignSkillToolNames(locations);
+  for (const location of locations) {
+    const relativeDir = location.path.replace(/\/?SKILL\.md$/, '');
+    if (relativeDir === skillName || assignments.get(location.path)?.toolName === skillName.toLowerCase()) {
+      skillDir = dirname(location.absPath);
+      skillFile = location.path;
+      scriptRelPath = relativeDir ? `${relativeDir}/${scriptPath}` : scriptPath;
+      rootDir = location.root.dir;
+      break;
     }
   }
   
   // Check if skill directory exists
-  if (!existsSync(skillDir)) {
+  if (!skillDir || !existsSync(skillDir)) {
     throw new Error(`Skill directory not found: ${skillName}`);
   }
   
-  // Normalize script path to prevent path traversal attacks
-  const normalizedScriptPath = normalize(scriptPath).replace(/^(\.\.(\/|\\|$))+/, '');
-  const fullScriptPath = resolve(skillDir, normalizedScriptPath);
-  
-  // Security check: ensure script is within skill directory
-  if (!fullScriptPath.startsWith(skillDir)) {
-    throw new Error(`Script path must be within skill directory: ${scriptPath}`);
-  }
-  
-  // Check if script file exists
-  if (!existsSync(fullScriptPath)) {
+  // Resolve through the skill file access layer (containment and symlink policy)
+  const fullScriptPath = await resolveContainedPath(rootDir, scriptRelPath, await getFileAccessOptions()).catch((error) => {
+    if (error instanceof SkillPathError) {
+      throw error;
+    }
     throw new Error(`Script file not found: ${scriptPath} in skill ${skillName}`);
+  });
+  
+  // Resolve the execution policy, a policy that can't be read or enforced refuses the run
+  // (dropping an invalid field could otherwise loosen the policy)
+  const policyErrors: string[] = [];
+  const { manifest, errors } = parseSkillFile(await readSkillFile(skillFile));
+  policyErrors.push(...errors.filter(error => error.startsWith('"execution')));
+  const userPolicy = parseExecutionPolicy((await readUserSettings()).scriptPolicy, policyErrors, 'scriptPolicy');
+  if (policyErrors.length > 0) {
+    throw new Error(`Invalid execution policy for ${skillName}: ${policyErrors.join('; ')}`);
   }
+  const policy = resolveExecutionPolicy(skillDir, manifest.execution, userPolicy);
+  const { command, args: commandArgs } = sandboxCommand(policy, skillDir, 'bash', [fullScriptPath, ...args]);
+  const { timeoutMs, maxOutputBytes } = policy;
   
   // Execute the script using bash with the full absolute path
   return new Promise((resolve, reject) => {
-    const childProcess = spawn('bash', [fullScriptPath, ...args], {
-      cwd: skillDir,
-      env: { ...process.env },
+    // Run in its own process group so a timeout also kills processes the script started
+    const childProcess = spawn(command, commandArgs, {
+      cwd: policy.cwd,
+      env: buildScriptEnv(policy, skillDir),
+      detached: process.platform !== 'win32',
     });
+    const killScript = (signal: NodeJS.Signals) => {
+      try {
+        if (childProcess.pid && process.platform !== 'win32') {
+          process.kill(-childProcess.pid, signal);
+        } else {
+          childProcess.kill(signal);
+        }
+      } catch {
+        // Already exited
+      }
+    };
     
-    let stdout = '';
-    let stderr = '';
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    const received = { stdout: 0, stderr: 0 };
+    let truncated = false;
+    let timedOut = false;
     
-    childProcess.stdout?.on('data', (data: Buffer) => {
-      stdout += data.toString();
-    });
+    // Keep at most maxOutputBytes per stream, drop the rest
+    const collect = (chunks: Buffer[], stream: 'stdout' | 'stderr') => (data: Buffer) => {
+      const remaining = maxOutputBytes - received[stream];
+      if (remaining <= 0) {
+        truncated = true;
+        return;
+      }
+      if (data.length > remaining) {
+        truncated = true;
+        data = data.subarray(0, remaining);
+      }
+      chunks.push(data);
+      received[stream] += data.length;
+    };
+    childProcess.stdout?.on('data', collect(stdout, 'stdout'));
+    childProcess.stderr?.on('data', collect(stderr, 'stderr'));
     
-    childProcess.stderr?.on('data', (data: Buffer) => {
-      stderr += data.toString();
-    });
+    let killTimer: NodeJS.Timeout | null = null;
+    const timeoutTimer = setTimeout(() => {
+      timedOut = true;
+      killScript('SIGTERM');
+      // Force kill scripts that ignore SIGTERM
+      killTimer = setTimeout(() => killScript('SIGKILL'), 2000);
+    }, timeoutMs);
     
-    childProcess.on('close', (code: number | null) => {
+    childProcess.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
+      clearTimeout(timeoutTimer);
+      if (killTimer) {
+        clearTimeout(killTimer);
+      }
+      
+      let error: string | undefined;
+      if (timedOut) {
+        error = `Script timed out after ${timeoutMs / 1000}s and was killed${signal ? ` with ${signal}` : ''}`;
+      } else if (signal) {
+        error = `Script was killed by signal ${signal}`;
+      }
+      
       resolve({
-        stdout: stdout.trim(),
-        stderr: stderr.trim(),
-        exitCode: code || 0,
+        stdout: Buffer.concat(stdout).toString().trim(),
+        stderr: Buffer.concat(stderr).toString().trim(),
+        exitCode: code,
+        signal,
+        timedOut,
+        truncated,
+        error,
       });
     });
     
     childProcess.on('error', (error: Error) => {
+      clearTimeout(timeoutTimer);
       reject(new Error(`Failed to execute script: ${error.message}`));
     });
   });
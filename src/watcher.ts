@@ -0,0 +1,191 @@
+import { watch, FSWatcher, mkdirSync } from 'fs';
+import { USER_SKILLS_DIR, getSkillRoots, resolveSkillPath, SkillRoot } from './utils.js';
+import { skillRegistry } from './registry.js';
+import { buildInputSchema } from './arguments.js';
+
+/**
+ * Change summary emitted after a burst of filesystem events settles
+ * - toolsChanged: skill tools were added, removed or changed (description, input schema)
+ * - resourcesChanged: resources were added, removed or changed (description, MIME type)
+ * - changedUris: resource URIs whose served file was created, modified or deleted
+ *   (edits to a file shadowed by a higher-precedence root don't change what the URI serves)
+ */
+export interface SkillsChange {
+  toolsChanged: boolean;
+  resourcesChanged: boolean;
+  changedUris: string[];
+}
+
+export type SkillsChangeListener = (change: SkillsChange) => void;
+
+// Wait for editors/git to finish writing before rescanning
+const DEBOUNCE_MS = 200;
+
+const listeners = new Set<SkillsChangeListener>();
+let watchers: FSWatcher[] = [];
+let watching = false;
+let debounceTimer: NodeJS.Timeout | null = null;
+// Watched roots in precedence order, changed paths per root directory
+let watchedRoots: SkillRoot[] = [];
+let pendingPaths = new Map<string, Set<string>>();
+// Listed tool and resource definitions (serialized), compared after each rescan
+let toolDefinitions = new Map<string, string>();
+let resourceDefinitions = new Map<string, string>();
+
+/**
+ * Subscribe to changes in the skill roots (project, team and user directories)
+ * The directory watchers are shared: they start with the first listener and stop with the last
+ * Returns an unsubscribe function
+ */
+export function watchSkills(listener: SkillsChangeListener): () => void {
+  listeners.add(listener);
+  if (!watching) {
+    watching = true;
+    startWatcher().catch((error) => {
+      console.error('Unable to watch skills directories, live reload disabled:', error);
+    });
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      stopWatcher();
+    }
+  };
+}
+
+async function startWatcher(): Promise<void> {
+  mkdirSync(USER_SKILLS_DIR, { recursive: true });
+  const roots = await getSkillRoots();
+
+  // Last listener may have unsubscribed while roots were being resolved
+  if (!watching) {
+    return;
+  }
+  watchedRoots = roots;
+
+  for (const root of roots) {
+    try {
+      const watcher = watch(root.dir, { recursive: true }, (_event, filename) => {
+        if (filename) {
+          const paths = pendingPaths.get(root.dir) ?? new Set<string>();
+          paths.add(filename.toString().split('\\').join('/'));
+          pendingPaths.set(root.dir, paths);
+        }
+        scheduleRescan();
+      });
+      watcher.on('error', (error) => {
+        console.error(`Error watching skills directory ${root.dir}:`, error);
+      });
+      watchers.push(watcher);
+    } catch (error) {
+      // Root doesn't exist (yet) or can't be watched, skip it
+      if (root.kind === 'user') {
+        console.error('Unable to watch skills directory, live reload disabled:', error);
+      }
+    }
+  }
+
+  // Take the initial snapshot so the first change can be compared against it
+  takeSnapshot().then((snapshot) => {
+    toolDefinitions = snapshot.toolDefinitions;
+    resourceDefinitions = snapshot.resourceDefinitions;
+  }).catch((error) => {
+    console.error('Error scanning skills directory:', error);
+  });
+}
+
+function stopWatcher(): void {
+  if (debounceTimer) {
+    clearTimeout(debounceTimer);
+    debounceTimer = null;
+  }
+  for (const watcher of watchers) {
+    watcher.close();
+  }
+  watchers = [];
+  watching = false;
+  watchedRoots = [];
+  pendingPaths = new Map();
+}
+
+function scheduleRescan(): void {
+  if (debounceTimer) {
+    clearTimeout(debounceTimer);
+  }
+  debounceTimer = setTimeout(() => {
+    debounceTimer = null;
+    rescan().catch((error) => {
+      console.error('Error rescanning skills directory:', error);
+    });
+  }, DEBOUNCE_MS);
+}
+
+/**
+ * What tools/list (and prompts/list, which mirrors it) and resources/list would return, by name and URI
+ */
+async function takeSnapshot(): Promise<{ toolDefinitions: Map<string, string>; resourceDefinitions: Map<string, string> }> {
+  const skills = await skillRegistry.listSkills();
+  const resources = await skillRegistry.listResources();
+  return {
+    toolDefinitions: new Map(skills.map(skill => [
+      skill.toolName,
+      JSON.stringify({ description: skill.description, inputSchema: buildInputSchema(skill.manifest.arguments) }),
+    ])),
+    resourceDefinitions: new Map(resources.map(resource => [resource.uri, JSON.stringify(resource)])),
+  };
+}
+
+function mapsDiffer(a: Map<string, string>, b: Map<string, string>): boolean {
+  if (a.size !== b.size) {
+    return true;
+  }
+  for (const [key, value] of a) {
+    if (b.get(key) !== value) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Resource URIs whose content changed: a path changed in one root only matters when the URI is
+ * served from that root, or from a lower-precedence root (the file was removed from this one)
+ */
+async function changedResourceUris(paths: Map<string, Set<string>>): Promise<string[]> {
+  const uris = new Set<string>();
+  for (const [rootDir, rootPaths] of paths) {
+    const changedIdx = watchedRoots.findIndex(root => root.dir === rootDir);
+    for (const path of rootPaths) {
+      const resolved = await resolveSkillPath(path).catch(() => undefined);
+      if (resolved === undefined) {
+        // Not a valid skill path (e.g. contains a backslash), no URI serves it
+        continue;
+      }
+      const servedIdx = resolved ? watchedRoots.findIndex(root => root.dir === resolved.root.dir) : -1;
+      if (!resolved || servedIdx === -1 || changedIdx <= servedIdx) {
+        // Resource URIs mirror the path relative to the skill root
+        uris.add(`skill://${path}`);
+      }
+    }
+  }
+  return Array.from(uris);
+}
+
+async function rescan(): Promise<void> {
+  const paths = pendingPaths;
+  pendingPaths = new Map();
+
+  const snapshot = await takeSnapshot();
+  const change: SkillsChange = {
+    toolsChanged: mapsDiffer(toolDefinitions, snapshot.toolDefinitions),
+    resourcesChanged: mapsDiffer(resourceDefinitions, snapshot.resourceDefinitions),
+    changedUris: await changedResourceUris(paths),
+  };
+  toolDefinitions = snapshot.toolDefinitions;
+  resourceDefinitions = snapshot.resourceDefinitions;
+
+  for (const listener of listeners) {
+    listener(change);
+  }
+}
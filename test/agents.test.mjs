@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { createTestHome } from './helpers.mjs';
+
+createTestHome();
+const { selectAgents } = await import('../dist/agents/index.js');
+
+const keys = (options) => selectAgents(options).map(adapter => adapter.key);
+
+test('selectAgents applies --only and --skip', () => {
+  assert.deepEqual(keys({ only: 'cursor,codex' }), ['cursor', 'codex']);
+  assert.deepEqual(keys({ skip: 'vscode,claude-code' }), ['claude-desktop', 'cursor', 'codex', 'copilot', 'gemini']);
+  assert.throws(() => selectAgents({ only: 'vim' }), /Unknown agent\(s\) in --only: vim/);
+});
+
+test('--workspace adds the workspace right after VS Code', () => {
+  assert.deepEqual(keys({ workspace: '.' }), ['claude-desktop', 'cursor', 'vscode', 'vscode-workspace', 'codex', 'copilot', 'gemini', 'claude-code']);
+  assert.deepEqual(keys({ only: 'vscode', workspace: '.' }), ['vscode', 'vscode-workspace']);
+});
+
+test('--workspace is kept when --only or --skip leaves out VS Code', () => {
+  assert.deepEqual(keys({ only: 'cursor', workspace: '.' }), ['cursor', 'vscode-workspace']);
+  assert.deepEqual(keys({ only: 'codex', workspace: '.' }), ['vscode-workspace', 'codex']);
+  assert.deepEqual(keys({ skip: 'vscode', workspace: '.' }), ['claude-desktop', 'cursor', 'vscode-workspace', 'codex', 'copilot', 'gemini', 'claude-code']);
+
+  const [workspace] = selectAgents({ only: 'cursor', workspace: 'project' }).filter(adapter => adapter.key === 'vscode-workspace');
+  assert.equal(workspace.configPath(), join(process.cwd(), 'project', '.vscode', 'mcp.json'));
+});
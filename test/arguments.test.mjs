@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+const { buildInputSchema, validateArguments, substitutePlaceholders } = await import('../dist/arguments.js');
+const { parseSkillFile } = await import('../dist/manifest.js');
+
+const { manifest, errors } = parseSkillFile(`---
+name: deploy
+description: Deploy a service
+arguments:
+  - name: service
+    required: true
+    description: Service to deploy
+  - name: environment
+    enum: [staging, production]
+    default: staging
+  - name: replicas
+    type: integer
+  - name: dry_run
+    type: boolean
+  - name: constructor
+---
+Deploy {{service}} to {{ environment }}
+`);
+const args = manifest.arguments;
+
+test('frontmatter arguments parse into typed declarations', () => {
+  assert.deepEqual(errors, []);
+  assert.deepEqual(args.map(arg => [arg.name, arg.type, arg.required]), [
+    ['service', 'string', true],
+    ['environment', 'string', false],
+    ['replicas', 'integer', false],
+    ['dry_run', 'boolean', false],
+    ['constructor', 'string', false],
+  ]);
+});
+
+test('buildInputSchema describes the declared arguments', () => {
+  const schema = buildInputSchema(args);
+  assert.deepEqual(schema.required, ['service']);
+  assert.equal(schema.additionalProperties, false);
+  assert.deepEqual(schema.properties.service, { type: 'string', description: 'Service to deploy' });
+  assert.deepEqual(schema.properties.environment, { type: 'string', enum: ['staging', 'production'], default: 'staging' });
+  assert.deepEqual(schema.properties.replicas, { type: 'integer' });
+});
+
+test('validateArguments applies defaults and reports every issue', () => {
+  assert.deepEqual(validateArguments(args, { service: 'api', replicas: 3 }), {
+    values: { service: 'api', environment: 'staging', replicas: 3 },
+    issues: [],
+  });
+
+  const { issues } = validateArguments(args, { environment: 'dev', replicas: 1.5, dry_run: 'yes', region: 'eu' });
+  assert.deepEqual(issues, [
+    'Unknown argument "region"',
+    'Missing required argument "service"',
+    'Argument "environment" must be one of: staging, production',
+    'Argument "replicas" must be a integer',
+    'Argument "dry_run" must be a boolean',
+  ]);
+});
+
+test('validateArguments coerces prompt strings to the declared type', () => {
+  const { values, issues } = validateArguments(args, { service: 'api', environment: '', replicas: '2', dry_run: 'true' }, true);
+  assert.deepEqual(issues, []);
+  assert.deepEqual(values, { service: 'api', environment: 'staging', replicas: 2, dry_run: true });
+  assert.deepEqual(validateArguments(args, { service: 'api', replicas: 'two' }, true).issues, ['Argument "replicas" must be a integer']);
+});
+
+test('validateArguments ignores inherited properties of the input', () => {
+  const { values, issues } = validateArguments(args, { service: 'api' });
+  assert.deepEqual(issues, []);
+  assert.equal(Object.prototype.hasOwnProperty.call(values, 'constructor'), false);
+});
+
+test('substitutePlaceholders fills declared arguments only', () => {
+  const text = 'Deploy {{service}} to {{ environment }} with {{replicas}} ({{other}})';
+  assert.equal(substitutePlaceholders(text, args, { service: 'api', environment: 'production' }), 'Deploy api to production with  ({{other}})');
+});
+
+test('substitutePlaceholders never substitutes Object.prototype members', () => {
+  const toStringArg = [{ name: 'toString', type: 'string', required: false }];
+  assert.equal(substitutePlaceholders('[{{constructor}}]', args, {}), '[]');
+  assert.equal(substitutePlaceholders('[{{toString}}]', toStringArg, {}), '[]');
+  assert.equal(substitutePlaceholders('[{{toString}}]', toStringArg, { toString: 'text' }), '[text]');
+});
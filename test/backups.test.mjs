@@ -0,0 +1,160 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { setTimeout as sleep } from 'timers/promises';
+import { createTestHome, writeFiles, writeSettings } from './helpers.mjs';
+
+const home = createTestHome();
+const cli = fileURLToPath(new URL('../dist/cli.js', import.meta.url));
+const backupsDir = join(home, '.ai-skills-hub', 'backups');
+const cursorConfig = join(home, '.cursor', 'mcp.json');
+const codexConfig = join(home, '.codex', 'config.toml');
+
+const {
+  createConfigBackup,
+  listBackups,
+  selectBackupsAt,
+  readBackup,
+  readBackupManifest,
+  getBackupRetention,
+  DEFAULT_BACKUP_RETENTION,
+} = await import('../dist/backups.js');
+
+function restore(...args) {
+  return spawnSync(process.execPath, [cli, 'restore', ...args], { cwd: home, env: { ...process.env, HOME: home }, encoding: 'utf-8' });
+}
+
+// Backups are ordered by their millisecond timestamps, keep them apart
+async function backupVersions(agent, configPath, versions) {
+  const entries = [];
+  for (const content of versions) {
+    writeFiles(home, { [configPath.slice(home.length + 1)]: content });
+    entries.push(await createConfigBackup(agent, configPath));
+    await sleep(5);
+  }
+  return entries;
+}
+
+function resetBackups() {
+  rmSync(backupsDir, { recursive: true, force: true });
+}
+
+test('retention comes from settings.json, invalid values fall back to the default', async () => {
+  writeSettings(home, {});
+  assert.equal(await getBackupRetention(), DEFAULT_BACKUP_RETENTION);
+  writeSettings(home, { backups: { retention: 0 } });
+  assert.equal(await getBackupRetention(), DEFAULT_BACKUP_RETENTION);
+  writeSettings(home, { backups: { retention: 2.5 } });
+  assert.equal(await getBackupRetention(), DEFAULT_BACKUP_RETENTION);
+  writeSettings(home, { backups: { retention: 3 } });
+  assert.equal(await getBackupRetention(), 3);
+});
+
+test('a missing config is not backed up', async () => {
+  resetBackups();
+  assert.equal(await createConfigBackup('cursor', join(home, 'missing.json')), null);
+  assert.deepEqual((await readBackupManifest()).backups, []);
+});
+
+test('the oldest backups of a config beyond the retention are rotated out', async () => {
+  resetBackups();
+  writeSettings(home, { backups: { retention: 2 } });
+
+  const [codex] = await backupVersions('codex', codexConfig, ['codex = 1\n']);
+  const cursor = await backupVersions('cursor', cursorConfig, ['{"v":1}', '{"v":2}', '{"v":3}']);
+
+  const kept = await listBackups('cursor');
+  assert.deepEqual(kept.map(backup => backup.file), [cursor[2].file, cursor[1].file]);
+  assert.equal(existsSync(join(backupsDir, cursor[0].file)), false);
+  assert.equal(await readBackup(kept[0]), '{"v":3}');
+  assert.equal(await readBackup(kept[1]), '{"v":2}');
+
+  // Other configs keep their own backups
+  assert.deepEqual((await listBackups('codex')).map(backup => backup.file), [codex.file]);
+  assert.deepEqual((await listBackups()).map(backup => backup.agent), ['cursor', 'cursor', 'codex']);
+});
+
+test('selectBackupsAt picks the newest backup of each config at or before the time', () => {
+  const backups = [
+    { agent: 'cursor', configPath: cursorConfig, file: 'a', createdAt: '2026-01-01T10:00:00.000Z' },
+    { agent: 'cursor', configPath: cursorConfig, file: 'b', createdAt: '2026-01-01T12:00:00.000Z' },
+    { agent: 'cursor', configPath: cursorConfig, file: 'c', createdAt: '2026-01-01T14:00:00.000Z' },
+    { agent: 'codex', configPath: codexConfig, file: 'd', createdAt: '2026-01-01T09:00:00.000Z' },
+  ];
+  assert.deepEqual(selectBackupsAt(backups, new Date('2026-01-01T12:00:00.000Z')).map(backup => backup.file), ['b', 'd']);
+  assert.deepEqual(selectBackupsAt(backups, new Date('2026-01-01T13:59:59.999Z')).map(backup => backup.file), ['b', 'd']);
+  assert.deepEqual(selectBackupsAt(backups, new Date('2026-01-01T08:00:00.000Z')), []);
+});
+
+test('a backup whose file was deleted is reported', async () => {
+  resetBackups();
+  const [backup] = await backupVersions('cursor', cursorConfig, ['{"v":1}']);
+  rmSync(join(backupsDir, backup.file));
+  await assert.rejects(readBackup(backup), /Backup file is missing/);
+});
+
+test('an invalid manifest is reported instead of being overwritten', async () => {
+  resetBackups();
+  writeFiles(backupsDir, { 'manifest.json': '{"version":1}' });
+  await assert.rejects(readBackupManifest(), /Invalid backup manifest .*missing "backups"/);
+  await assert.rejects(createConfigBackup('cursor', cursorConfig), /Invalid backup manifest/);
+  assert.equal(readFileSync(join(backupsDir, 'manifest.json'), 'utf-8'), '{"version":1}');
+});
+
+test('skillshub restore lists backups and validates --at', async () => {
+  resetBackups();
+  writeSettings(home, {});
+  assert.match(restore().stdout, /No config backups yet/);
+
+  const [backup] = await backupVersions('cursor', cursorConfig, ['{"v":1}']);
+  const listing = restore('--agent', 'cursor').stdout;
+  assert.match(listing, new RegExp(`cursor\\x1b\\[0m ${cursorConfig.replace(/[.\\]/g, '\\$&')}`));
+  assert.match(listing, new RegExp(`  ${backup.createdAt}`));
+  assert.match(restore('--agent', 'codex').stdout, /No backups of codex config/);
+
+  let result = restore('--at', 'yesterday-ish');
+  assert.equal(result.status, 1);
+  assert.match(result.stderr, /Invalid timestamp: yesterday-ish/);
+
+  result = restore('--at', '2000-01-01T00:00:00Z');
+  assert.equal(result.status, 1);
+  assert.match(result.stderr, /No backup taken at or before 2000-01-01T00:00:00\.000Z/);
+
+  // Not a terminal: nothing is restored without --yes
+  writeFileSync(cursorConfig, '{"v":2}');
+  result = restore('--at', backup.createdAt);
+  assert.equal(result.status, 1);
+  assert.match(result.stderr, /Refusing to restore without confirmation, use --yes/);
+  assert.equal(readFileSync(cursorConfig, 'utf-8'), '{"v":2}');
+});
+
+test('skillshub restore --yes rolls configs back and backs up what it replaces', async () => {
+  resetBackups();
+  const [first] = await backupVersions('cursor', cursorConfig, ['{"v":1}', '{"v":2}']);
+  await backupVersions('codex', codexConfig, ['codex = 1\n']);
+  writeFileSync(cursorConfig, '{"v":3}');
+  rmSync(codexConfig);
+
+  const result = restore('--at', first.createdAt, '--yes');
+  assert.equal(result.status, 0, result.stderr);
+  assert.match(result.stdout, /Restored .*mcp\.json/);
+  assert.match(result.stdout, /1 config file\(s\) restored/);
+  assert.equal(readFileSync(cursorConfig, 'utf-8'), '{"v":1}');
+  // The codex backup is newer than --at, the missing config is left alone
+  assert.equal(existsSync(codexConfig), false);
+
+  // The replaced config is the newest backup now, restoring it undoes the rollback
+  const [latest] = await listBackups('cursor');
+  assert.equal(await readBackup(latest), '{"v":3}');
+  assert.equal(restore('--at', latest.createdAt, '--yes', '--agent', 'cursor').status, 0);
+  assert.equal(readFileSync(cursorConfig, 'utf-8'), '{"v":3}');
+
+  // A config that already matches is not rewritten or backed up again
+  const count = (await listBackups()).length;
+  const again = restore('--at', latest.createdAt, '--yes', '--agent', 'cursor');
+  assert.match(again.stdout, /Already matches the backup/);
+  assert.equal((await listBackups()).length, count);
+});
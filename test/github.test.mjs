@@ -0,0 +1,171 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { readFileSync, statSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { createTestHome } from './helpers.mjs';
+
+const home = createTestHome();
+const cliPath = join(dirname(fileURLToPath(import.meta.url)), '..', 'dist', 'cli.js');
+
+// Stand-in for the GitHub API and raw.githubusercontent.com: one repository `acme/skills`
+// with a `main` branch and a `feature/deploy` branch (a ref containing "/")
+const COMMITS = {
+  main: { sha: 'c0ffee01', tree: 'tree-main' },
+  'feature/deploy': { sha: 'c0ffee02', tree: 'tree-feature' },
+};
+const TREES = {
+  'tree-main': [{ path: 'skills', mode: '040000', type: 'tree', sha: 'tree-main-skills' }],
+  'tree-feature': [{ path: 'skills', mode: '040000', type: 'tree', sha: 'tree-feature-skills' }],
+  'tree-feature-skills': [{ path: 'deploy', mode: '040000', type: 'tree', sha: 'tree-deploy' }],
+  'tree-deploy': [
+    { path: 'SKILL.md', mode: '100644', type: 'blob', sha: 'b1' },
+    { path: 'scripts', mode: '040000', type: 'tree', sha: 'tree-deploy-scripts' },
+    { path: 'scripts/run.sh', mode: '100755', type: 'blob', sha: 'b2' },
+    { path: 'latest', mode: '120000', type: 'blob', sha: 'b3' },
+  ],
+  'tree-deploy-scripts': [{ path: 'run.sh', mode: '100755', type: 'blob', sha: 'b2' }],
+};
+const RAW_FILES = {
+  'c0ffee02/skills/deploy/SKILL.md': '---\nname: deploy\ndescription: Deploy the app\n---\n# Deploy\n',
+  'c0ffee02/skills/deploy/scripts/run.sh': '#!/bin/sh\necho deploying\n',
+};
+
+const requests = [];
+let rateLimited = false;
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url, 'http://localhost');
+  const path = decodeURIComponent(url.pathname);
+  requests.push(`${path}${url.search}`);
+  const json = (status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  if (rateLimited) {
+    return json(403, { message: 'API rate limit exceeded' });
+  }
+
+  let match;
+  if ((match = path.match(/^\/api\/repos\/acme\/skills\/commits\/(.+)$/))) {
+    const commit = COMMITS[match[1]];
+    return commit ? json(200, { sha: commit.sha, commit: { tree: { sha: commit.tree } } }) : json(404, { message: 'Not Found' });
+  }
+  if ((match = path.match(/^\/api\/repos\/acme\/skills\/contents\/?(.*)$/))) {
+    const commit = COMMITS[url.searchParams.get('ref')];
+    let entries = commit ? TREES[commit.tree] : undefined;
+    for (const segment of match[1].split('/').filter(Boolean)) {
+      const dir = entries?.find(entry => entry.path === segment && entry.type === 'tree');
+      entries = dir ? TREES[dir.sha] : undefined;
+    }
+    if (!entries) {
+      return json(404, { message: 'Not Found' });
+    }
+    return json(200, entries.map(entry => ({ name: entry.path, type: entry.type === 'tree' ? 'dir' : 'file', sha: entry.sha })));
+  }
+  if ((match = path.match(/^\/api\/repos\/acme\/skills\/git\/trees\/(.+)$/))) {
+    const tree = TREES[match[1]];
+    return tree ? json(200, { sha: match[1], tree, truncated: false }) : json(404, { message: 'Not Found' });
+  }
+  if ((match = path.match(/^\/raw\/acme\/skills\/(.+)$/)) && RAW_FILES[match[1]] !== undefined) {
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    return res.end(RAW_FILES[match[1]]);
+  }
+  res.writeHead(404);
+  res.end('404: Not Found');
+});
+
+await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+const baseUrl = `http://127.0.0.1:${server.address().port}`;
+process.env.SKILLSHUB_GITHUB_API_URL = `${baseUrl}/api/`;
+process.env.SKILLSHUB_GITHUB_RAW_URL = `${baseUrl}/raw`;
+delete process.env.GITHUB_TOKEN;
+
+after(() => new Promise(resolve => server.close(resolve)));
+
+const { parseGitHubUrl, fetchGitHubDirectory } = await import('../dist/github.js');
+const { resolveSource } = await import('../dist/sources.js');
+
+const featureUrl = 'https://github.com/acme/skills/tree/feature/deploy/skills/deploy';
+
+test('tree, blob and raw URLs are parsed into owner, repo and ref with path', () => {
+  const expected = { owner: 'acme', repo: 'skills', refAndPath: ['feature', 'deploy', 'skills', 'deploy'] };
+  assert.deepEqual(parseGitHubUrl(featureUrl), expected);
+  assert.deepEqual(parseGitHubUrl('https://github.com/acme/skills/blob/feature/deploy/skills/deploy/SKILL.md'), expected);
+  assert.deepEqual(parseGitHubUrl('https://raw.githubusercontent.com/acme/skills/feature/deploy/skills/deploy/SKILL.md'), expected);
+  assert.equal(parseGitHubUrl('https://github.com/acme/skills'), null);
+  assert.equal(parseGitHubUrl('https://example.com/acme/skills/tree/main'), null);
+});
+
+test('a directory at a ref containing "/" is listed and downloaded at the resolved commit', async () => {
+  requests.length = 0;
+  const result = await fetchGitHubDirectory(parseGitHubUrl(featureUrl));
+
+  assert.equal(result.name, 'deploy');
+  assert.equal(result.ref, 'feature/deploy');
+  assert.equal(result.commit, 'c0ffee02');
+  assert.deepEqual(result.skipped, ['latest']);
+  assert.deepEqual(result.files.map(file => [file.path, file.mode, file.content.toString()]), [
+    ['SKILL.md', 0o644, RAW_FILES['c0ffee02/skills/deploy/SKILL.md']],
+    ['scripts/run.sh', 0o755, RAW_FILES['c0ffee02/skills/deploy/scripts/run.sh']],
+  ]);
+
+  // "feature" alone is not a ref, the next split names the branch and the subpath
+  assert.ok(requests.includes('/api/repos/acme/skills/contents/deploy/skills?ref=feature'));
+  assert.ok(requests.includes('/api/repos/acme/skills/contents/skills?ref=feature%2Fdeploy'));
+  assert.ok(requests.includes('/api/repos/acme/skills/git/trees/tree-deploy?recursive=1'));
+  assert.ok(requests.includes('/raw/acme/skills/c0ffee02/skills/deploy/scripts/run.sh'));
+});
+
+test('resolveSource describes GitHub sources and records the commit', async () => {
+  const resolved = await resolveSource(featureUrl);
+  assert.equal(resolved.kind, 'github');
+  assert.equal(resolved.commit, 'c0ffee02');
+  assert.deepEqual(resolved.skills.map(skill => skill.name), ['deploy']);
+});
+
+test('missing directories and refs are reported', async () => {
+  await assert.rejects(
+    fetchGitHubDirectory(parseGitHubUrl('https://github.com/acme/skills/tree/main/skills/missing')),
+    /Directory not found in acme\/skills: main\/skills\/missing/
+  );
+  await assert.rejects(
+    fetchGitHubDirectory(parseGitHubUrl('https://github.com/acme/skills/tree/feature/deploy/skills/deploy/scripts/run.sh')),
+    /Not a directory: skills\/deploy\/scripts\/run\.sh/
+  );
+  await assert.rejects(
+    fetchGitHubDirectory(parseGitHubUrl('https://github.com/acme/skills/tree/release/skills/deploy')),
+    /Directory not found in acme\/skills: release\/skills\/deploy/
+  );
+});
+
+test('API errors such as rate limiting are not mistaken for a missing directory', async () => {
+  rateLimited = true;
+  try {
+    await assert.rejects(
+      fetchGitHubDirectory(parseGitHubUrl(featureUrl)),
+      /GitHub API request failed \(HTTP 403\)/
+    );
+  } finally {
+    rateLimited = false;
+  }
+});
+
+test('skillshub add installs from the stand-in server', async () => {
+  const { stdout } = await promisify(execFile)(process.execPath, [cliPath, 'add', featureUrl, '--yes'], {
+    cwd: home,
+    env: { ...process.env, HOME: home },
+  });
+  assert.match(stdout, /successfully added/);
+
+  const skillDir = join(home, '.ai-skills-hub', 'skills', 'deploy');
+  assert.equal(readFileSync(join(skillDir, 'SKILL.md'), 'utf-8'), RAW_FILES['c0ffee02/skills/deploy/SKILL.md']);
+  assert.equal(statSync(join(skillDir, 'scripts', 'run.sh')).mode & 0o777, 0o755);
+
+  const lockfile = JSON.parse(readFileSync(join(home, '.ai-skills-hub', 'skills.lock.json'), 'utf-8'));
+  assert.equal(lockfile.skills.deploy.commit, 'c0ffee02');
+});
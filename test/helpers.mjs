@@ -0,0 +1,35 @@
+import { mkdtempSync, mkdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+
+/**
+ * Point HOME (and the working directory) at a fresh temporary directory
+ * Call before importing dist modules: they resolve ~/.ai-skills-hub when loaded
+ */
+export function createTestHome() {
+  const home = mkdtempSync(join(tmpdir(), 'skillshub-test-'));
+  process.env.HOME = home;
+  process.env.USERPROFILE = home;
+  delete process.env.SKILLSHUB_PATH;
+  process.chdir(home);
+  return home;
+}
+
+/**
+ * Write files below a directory, creating parent directories ({ 'go/SKILL.md': '...' })
+ */
+export function writeFiles(baseDir, files) {
+  for (const [relPath, content] of Object.entries(files)) {
+    const filePath = join(baseDir, relPath);
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, content);
+  }
+}
+
+export function writeSettings(home, settings) {
+  writeFiles(home, { '.ai-skills-hub/settings.json': JSON.stringify(settings) });
+}
+
+export function skillMarkdown(name, description = `${name} skill`) {
+  return `---\nname: ${name}\ndescription: ${description}\n---\n# ${name}\n`;
+}
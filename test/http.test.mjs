@@ -0,0 +1,73 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { fileURLToPath } from 'url';
+import { createTestHome } from './helpers.mjs';
+
+const home = createTestHome();
+const cli = fileURLToPath(new URL('../dist/cli.js', import.meta.url));
+const { createHttpApp } = await import('../dist/http.js');
+
+const { app, closeAll, evictIdleSessions } = createHttpApp({ host: '127.0.0.1', port: 0, sessionIdleTimeoutMs: 50 });
+after(closeAll);
+
+function post(body, sessionId) {
+  return app.fetch(new Request('http://127.0.0.1/mcp', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...(sessionId ? { 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-06-18' } : {}),
+    },
+    body: JSON.stringify(body),
+  }));
+}
+
+async function initialize() {
+  const response = await post({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+  });
+  assert.equal(response.status, 200);
+  await response.text();
+  return response.headers.get('mcp-session-id');
+}
+
+const ping = (sessionId) => post({ jsonrpc: '2.0', id: 2, method: 'ping' }, sessionId);
+
+test('requests keep a Streamable HTTP session alive', async () => {
+  const sessionId = await initialize();
+  assert.ok(sessionId);
+  for (let i = 0; i < 3; i++) {
+    await new Promise(resolve => setTimeout(resolve, 30));
+    const response = await ping(sessionId);
+    assert.equal(response.status, 200);
+    await response.text();
+    await evictIdleSessions();
+  }
+});
+
+test('idle Streamable HTTP sessions are closed', async () => {
+  const sessionId = await initialize();
+  await new Promise(resolve => setTimeout(resolve, 80));
+  await evictIdleSessions();
+
+  const response = await ping(sessionId);
+  assert.equal(response.status, 404);
+  assert.equal((await response.json()).error.message, 'Session not found');
+});
+
+test('serve rejects ports that are not a number from 1 to 65535', () => {
+  for (const port of ['80abc', 'abc', '0', '65536', '-1', '8.5']) {
+    const result = spawnSync(process.execPath, [cli, 'serve', '--http', '--port', port], {
+      cwd: home,
+      env: { ...process.env, HOME: home },
+      encoding: 'utf-8',
+      timeout: 10000,
+    });
+    assert.equal(result.status, 1, port);
+    assert.match(result.stderr, new RegExp(`Invalid --port: "${port}", expected a number from 1 to 65535`));
+  }
+});
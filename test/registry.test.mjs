@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { createTestHome, writeFiles, skillMarkdown } from './helpers.mjs';
+
+const home = createTestHome();
+const skillsDir = join(home, '.ai-skills-hub', 'skills');
+
+writeFiles(skillsDir, {
+  'search-skills/SKILL.md': skillMarkdown('search-skills'),
+  'backend/testing/SKILL.md': skillMarkdown('testing', 'Backend testing'),
+  'frontend/testing/SKILL.md': skillMarkdown('testing', 'Frontend testing'),
+});
+
+const { SkillRegistry } = await import('../dist/registry.js');
+
+/**
+ * A registry that counts full rescans
+ */
+function countingRegistry() {
+  const registry = new SkillRegistry();
+  const listSkills = registry.listSkills.bind(registry);
+  registry.rescans = 0;
+  registry.listSkills = async () => {
+    registry.rescans++;
+    return listSkills();
+  };
+  return registry;
+}
+
+test('listSkills assigns collision-free tool names', async () => {
+  const skills = await new SkillRegistry().listSkills();
+  assert.deepEqual(skills.map(skill => skill.toolName), ['backend__testing', 'frontend__testing', skills[2].toolName]);
+  assert.match(skills[2].toolName, /^search_skills_[0-9a-f]+$/);
+  assert.deepEqual(skills[0].conflicts, ['frontend/testing/SKILL.md']);
+});
+
+test('an edited skill keeps its assigned tool name without a rescan', async () => {
+  const registry = countingRegistry();
+  const skills = await registry.listSkills();
+  registry.rescans = 0;
+
+  for (const skill of skills) {
+    writeFiles(skillsDir, { [skill.path]: skillMarkdown(skill.manifest.name, `${skill.description}, edited`) });
+    const found = await registry.findByToolName(skill.toolName);
+    assert.equal(found?.path, skill.path);
+    assert.equal(found.toolName, skill.toolName);
+    assert.equal(found.description, `${skill.description}, edited`);
+    assert.deepEqual(found.conflicts, skill.conflicts);
+  }
+  assert.equal(registry.rescans, 0);
+});
+
+test('an unknown tool name rescans once', async () => {
+  const registry = countingRegistry();
+  await registry.listSkills();
+  registry.rescans = 0;
+  assert.equal(await registry.findByToolName('missing'), null);
+  assert.equal(registry.rescans, 1);
+});
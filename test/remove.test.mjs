@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { createTestHome, writeFiles, skillMarkdown } from './helpers.mjs';
+
+const home = createTestHome();
+const skillsDir = join(home, '.ai-skills-hub', 'skills');
+const cli = fileURLToPath(new URL('../dist/cli.js', import.meta.url));
+
+writeFiles(skillsDir, {
+  'search-skills/SKILL.md': skillMarkdown('search-skills'),
+  'go-testing/SKILL.md': skillMarkdown('go-testing'),
+});
+
+const { findSkillLocation, toolNameToFilename, SEARCH_TOOL_NAME } = await import('../dist/utils.js');
+const { SkillRegistry } = await import('../dist/registry.js');
+
+function skillshub(...args) {
+  return execFileSync(process.execPath, [cli, ...args], { cwd: home, env: { ...process.env, HOME: home }, encoding: 'utf-8' });
+}
+
+test('a skill colliding with a built-in tool is found by its listed tool name', async () => {
+  const skills = await new SkillRegistry().listSkills();
+  const skill = skills.find(entry => entry.path === 'search-skills/SKILL.md');
+  assert.ok(skill);
+  assert.notEqual(skill.toolName, SEARCH_TOOL_NAME);
+  assert.match(skill.toolName, /^search_skills_[0-9a-f]+$/);
+
+  assert.equal(await toolNameToFilename(skill.toolName), 'search-skills/SKILL.md');
+  assert.equal((await findSkillLocation(skill.toolName))?.path, 'search-skills/SKILL.md');
+  assert.equal((await findSkillLocation('search-skills'))?.path, 'search-skills/SKILL.md');
+});
+
+test('remove accepts the tool name of a skill colliding with a built-in tool', async () => {
+  const [skill] = (await new SkillRegistry().listSkills()).filter(entry => entry.path === 'search-skills/SKILL.md');
+
+  const output = skillshub('remove', skill.toolName, '--yes');
+  assert.match(output, /Removed search-skills/);
+  assert.equal(existsSync(join(skillsDir, 'search-skills')), false);
+  assert.equal(existsSync(join(skillsDir, 'go-testing/SKILL.md')), true);
+});
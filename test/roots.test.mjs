@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync } from 'fs';
+import { join } from 'path';
+import { createTestHome, writeFiles, writeSettings, skillMarkdown } from './helpers.mjs';
+
+const home = createTestHome();
+const userDir = join(home, '.ai-skills-hub', 'skills');
+const projectDir = join(home, 'project');
+const projectHubDir = join(projectDir, '.ai-skills-hub', 'skills');
+const projectClaudeDir = join(projectDir, '.claude', 'skills');
+const envDir = join(home, 'team-env');
+const settingsDir = join(home, '.ai-skills-hub', 'team-settings');
+
+writeFiles(userDir, {
+  'go/SKILL.md': skillMarkdown('go', 'user go'),
+  'go/resources/guide.md': '# User guide\n',
+  'go/advanced/SKILL.md': skillMarkdown('advanced'),
+  'docker/SKILL.md': skillMarkdown('docker', 'user docker'),
+});
+writeFiles(envDir, {
+  'docker/SKILL.md': skillMarkdown('docker', 'team docker'),
+  'go/SKILL.md': skillMarkdown('go', 'team go'),
+});
+// A root that is itself a skill
+writeFiles(settingsDir, {
+  'SKILL.md': skillMarkdown('handbook'),
+  'resources/onboarding.md': '# Onboarding\n',
+});
+writeFiles(projectClaudeDir, {
+  'go/SKILL.md': skillMarkdown('go', 'project go'),
+});
+mkdirSync(projectHubDir, { recursive: true });
+mkdirSync(join(projectDir, '.git'));
+mkdirSync(join(projectDir, 'src'));
+
+// The settings directory is listed twice, it only counts once
+writeSettings(home, { skillDirs: ['team-settings', settingsDir] });
+process.env.SKILLSHUB_PATH = envDir;
+process.chdir(join(projectDir, 'src'));
+
+const { getSkillRoots, resolveSkillPath, scanSkillLocations } = await import('../dist/utils.js');
+
+test('roots are ordered project, SKILLSHUB_PATH, settings.skillDirs, user', async () => {
+  const roots = await getSkillRoots();
+  assert.deepEqual(roots.map(root => [root.kind, root.dir]), [
+    ['project', projectHubDir],
+    ['project', projectClaudeDir],
+    ['team', envDir],
+    ['team', settingsDir],
+    ['user', userDir],
+  ]);
+});
+
+test('a skill resolves to the highest-precedence root that has it, resources follow their SKILL.md', async () => {
+  const go = await resolveSkillPath('go/SKILL.md');
+  assert.equal(go.root.dir, projectClaudeDir);
+  assert.equal(go.skillDir, join(projectClaudeDir, 'go'));
+
+  // Only the user root has the guide, but the project skill shadows the whole directory
+  const guide = await resolveSkillPath('go/resources/guide.md');
+  assert.equal(guide.root.dir, projectClaudeDir);
+  assert.equal(guide.absPath, join(projectClaudeDir, 'go', 'resources', 'guide.md'));
+
+  const docker = await resolveSkillPath('docker/SKILL.md');
+  assert.equal(docker.root.dir, envDir);
+});
+
+test('the deepest skill owns a path, whatever root its parent skills are in', async () => {
+  const advanced = await resolveSkillPath('go/advanced/notes.md');
+  assert.equal(advanced.root.dir, userDir);
+  assert.equal(advanced.skillDir, join(userDir, 'go', 'advanced'));
+});
+
+test('a SKILL.md directly in a root is resolved', async () => {
+  const skill = await resolveSkillPath('SKILL.md');
+  assert.equal(skill.root.dir, settingsDir);
+  assert.equal(skill.skillDir, settingsDir);
+  assert.equal(skill.absPath, join(settingsDir, 'SKILL.md'));
+
+  const resource = await resolveSkillPath('resources/onboarding.md');
+  assert.equal(resource.root.dir, settingsDir);
+  assert.equal(resource.absPath, join(settingsDir, 'resources', 'onboarding.md'));
+
+  // Paths outside every deeper skill belong to the root's own skill
+  const other = await resolveSkillPath('unknown/notes.md');
+  assert.equal(other.skillDir, settingsDir);
+});
+
+test('skill locations record the lower roots they shadow', async () => {
+  const locations = await scanSkillLocations();
+  const summary = Object.fromEntries(locations.map(location => [
+    location.path,
+    [location.root.dir, ...location.shadowed.map(root => root.dir)],
+  ]));
+  assert.deepEqual(summary, {
+    'SKILL.md': [settingsDir],
+    'docker/SKILL.md': [envDir, userDir],
+    'go/SKILL.md': [projectClaudeDir, envDir, userDir],
+    'go/advanced/SKILL.md': [userDir],
+  });
+});
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+
+const { resolveExecutionPolicy, buildScriptEnv, DEFAULT_SCRIPT_TIMEOUT_SECONDS } = await import('../dist/sandbox.js');
+
+const skillDir = join('/srv', 'skills', 'deploy');
+
+test('cwd resolves inside the skill directory', () => {
+  assert.equal(resolveExecutionPolicy(skillDir).cwd, skillDir);
+  assert.equal(resolveExecutionPolicy(skillDir, { cwd: 'scripts' }).cwd, join(skillDir, 'scripts'));
+  assert.equal(resolveExecutionPolicy(skillDir, { cwd: '..cache' }).cwd, join(skillDir, '..cache'));
+  assert.equal(resolveExecutionPolicy(skillDir, { cwd: 'build/..data' }).cwd, join(skillDir, 'build', '..data'));
+  assert.equal(resolveExecutionPolicy(skillDir, { cwd: 'project' }).cwd, process.cwd());
+});
+
+test('cwd outside the skill directory is rejected', () => {
+  for (const cwd of ['..', '../other', 'scripts/../../other', '/tmp']) {
+    assert.throws(() => resolveExecutionPolicy(skillDir, { cwd }), /cwd must be inside the skill directory/, cwd);
+  }
+});
+
+test('the user policy can only tighten the skill policy', () => {
+  const policy = resolveExecutionPolicy(
+    skillDir,
+    { timeout: 120, max_output: 1024, env: ['API_TOKEN', 'REGION'], network: true },
+    { timeout: 30, max_output: 4096, env: ['REGION'], network: false }
+  );
+  assert.equal(policy.timeoutMs, 30 * 1000);
+  assert.equal(policy.maxOutputBytes, 1024);
+  assert.equal(policy.network, false);
+  assert.ok(policy.env.includes('REGION'));
+  assert.ok(!policy.env.includes('API_TOKEN'));
+  assert.equal(resolveExecutionPolicy(skillDir).timeoutMs, DEFAULT_SCRIPT_TIMEOUT_SECONDS * 1000);
+});
+
+test('scripts only get allowed environment variables', () => {
+  process.env.SKILLSHUB_TEST_SECRET = 'secret';
+  const env = buildScriptEnv(resolveExecutionPolicy(skillDir), skillDir);
+  assert.equal(env.SKILL_DIR, skillDir);
+  assert.equal(env.PATH, process.env.PATH);
+  assert.equal(env.SKILLSHUB_TEST_SECRET, undefined);
+});
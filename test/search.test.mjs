@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { createTestHome, writeFiles } from './helpers.mjs';
+
+const home = createTestHome();
+const skillsDir = join(home, '.ai-skills-hub', 'skills');
+
+writeFiles(skillsDir, {
+  'docker-deploy/SKILL.md': '---\nname: docker-deploy\ndescription: Deploy containers with Docker\ntags: [docker, deploy]\n---\n# Docker deploy\n\nBuild the image and push it.\n\n## Rollback\n\nRedeploy the previous image tag.\n',
+  'go-testing/SKILL.md': '---\nname: go-testing\ndescription: Write table-driven Go tests\n---\n# Go testing\n\nRun go test ./... before pushing a docker image.\n',
+  'go-testing/resources/benchmarks.md': '# Benchmarks\n\nUse testing.B and report allocations.\n',
+  'notes/SKILL.md': '---\nname: notes\ndescription: Meeting notes\n---\n# Notes\n\nWrite notes.\n',
+});
+
+const { searchSkills, tokenize } = await import('../dist/search.js');
+const { parseSections, findSection } = await import('../dist/budget.js');
+const { splitFrontmatter } = await import('../dist/manifest.js');
+
+test('tokenize drops stop words and splits CJK text into bigrams', () => {
+  assert.deepEqual(tokenize('How to deploy the API'), ['deploy', 'api']);
+  assert.deepEqual(tokenize('部署容器'), ['部署', '署容', '容器']);
+});
+
+test('sections whose heading and manifest match rank first', async () => {
+  const hits = await searchSkills('docker');
+  assert.deepEqual(hits.map(hit => hit.toolName).slice(0, 2), ['docker_deploy', 'go_testing']);
+  assert.equal(hits[0].heading, 'Docker deploy');
+  assert.ok(hits[0].score > hits[1].score);
+  assert.match(hits[1].snippet, /docker image/);
+});
+
+test('resource and subsection headings are searchable', async () => {
+  const [rollback] = await searchSkills('rollback');
+  assert.equal(rollback.heading, 'Rollback');
+  assert.equal(rollback.path, 'docker-deploy/SKILL.md');
+
+  const [benchmarks] = await searchSkills('allocations');
+  assert.equal(benchmarks.path, 'go-testing/resources/benchmarks.md');
+  assert.equal(benchmarks.toolName, 'go_testing');
+});
+
+test('hit headings are the ones read_skill_section looks up', async () => {
+  writeFiles(skillsDir, {
+    'release/SKILL.md': '---\nname: release\ndescription: Cut a release\n---\nTag the release commit.\n\n## Publish to npm ##\n\n```sh\n# npm publish step\nnpm publish\n```\n',
+  });
+
+  const hits = await searchSkills('publish');
+  assert.deepEqual(hits.map(hit => hit.heading), ['Publish to npm']);
+  assert.doesNotMatch(hits[0].snippet, /##/);
+
+  const { body } = splitFrontmatter(readFileSync(join(skillsDir, 'release/SKILL.md'), 'utf-8'));
+  assert.ok(findSection(parseSections(body), hits[0].heading));
+
+  const [intro] = await searchSkills('tag commit');
+  assert.equal(intro.heading, 'release');
+});
+
+test('searchSkills returns at most limit hits', async () => {
+  assert.ok((await searchSkills('write')).length >= 2);
+  assert.equal((await searchSkills('write', 1)).length, 1);
+  assert.deepEqual(await searchSkills('the and of'), []);
+});
+
+test('edited, added and removed files are reindexed', async () => {
+  assert.deepEqual(await searchSkills('kubernetes'), []);
+
+  writeFiles(skillsDir, { 'notes/SKILL.md': '---\nname: notes\ndescription: Meeting notes\n---\n# Notes\n\nKubernetes rollout notes.\n' });
+  assert.deepEqual((await searchSkills('kubernetes')).map(hit => hit.toolName), ['notes']);
+
+  writeFiles(skillsDir, { 'k8s/SKILL.md': '---\nname: k8s\ndescription: Kubernetes manifests\n---\n# Kubernetes\n' });
+  assert.deepEqual((await searchSkills('kubernetes')).map(hit => hit.toolName), ['k8s', 'notes']);
+
+  const { rmSync } = await import('fs');
+  rmSync(join(skillsDir, 'k8s'), { recursive: true });
+  assert.deepEqual((await searchSkills('kubernetes')).map(hit => hit.toolName), ['notes']);
+});
@@ -0,0 +1,103 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { createTestHome, writeFiles, skillMarkdown } from './helpers.mjs';
+
+const home = createTestHome();
+const skillsDir = join(home, '.ai-skills-hub', 'skills');
+
+const files = {};
+for (let i = 0; i < 60; i++) {
+  files[`deploy-${i}/SKILL.md`] = skillMarkdown(`deploy-${i}`, `Deploy service ${i}`);
+}
+files['hello/SKILL.md'] = skillMarkdown('hello');
+files['hello/scripts/greet.sh'] = 'echo "hello $1"\n';
+writeFiles(skillsDir, files);
+
+const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+const { InMemoryTransport } = await import('@modelcontextprotocol/sdk/inMemory.js');
+const { ElicitRequestSchema } = await import('@modelcontextprotocol/sdk/types.js');
+const { SkillsHubServer } = await import('../dist/server.js');
+
+/**
+ * Connect a client to a fresh server instance over an in-memory transport
+ * `onElicit` answers elicitation requests, the client only declares elicitation support when it is given
+ */
+async function connect(onElicit) {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const server = new SkillsHubServer();
+  await server.connect(serverTransport);
+  const client = new Client({ name: 'test', version: '1.0.0' }, { capabilities: onElicit ? { elicitation: {} } : {} });
+  if (onElicit) {
+    client.setRequestHandler(ElicitRequestSchema, onElicit);
+  }
+  await client.connect(clientTransport);
+  return { client, server };
+}
+
+const { client, server } = await connect();
+after(() => server.close());
+
+function resultCount(result) {
+  return /Found (\d+) result/.exec(result.content[0].text)?.[1];
+}
+
+test('search_skills clamps limit to 1..50', async () => {
+  const search = (args) => client.callTool({ name: 'search_skills', arguments: { query: 'deploy', ...args } });
+  assert.equal(resultCount(await search({})), '10');
+  assert.equal(resultCount(await search({ limit: 0 })), '1');
+  assert.equal(resultCount(await search({ limit: -5 })), '1');
+  assert.equal(resultCount(await search({ limit: 2.9 })), '2');
+  assert.equal(resultCount(await search({ limit: 500 })), '50');
+});
+
+test('search_skills requires a query', async () => {
+  const result = await client.callTool({ name: 'search_skills', arguments: { query: '  ' } });
+  assert.equal(result.isError, true);
+});
+
+/**
+ * Call run_skill_script for hello's greet.sh through a client answering elicitation with `onElicit`
+ */
+async function runGreet(onElicit) {
+  const connection = await connect(onElicit);
+  try {
+    return await connection.client.callTool({ name: 'run_skill_script', arguments: { skill: 'hello', script: 'greet.sh', args: ['world'] } });
+  } finally {
+    await connection.server.close();
+  }
+}
+
+test('run_skill_script runs the script once the user confirms', async () => {
+  const result = await runGreet(async (request) => {
+    assert.match(request.params.message, /Run "scripts\/greet\.sh world" from skill hello\?/);
+    return { action: 'accept', content: { confirm: true } };
+  });
+  assert.equal(result.isError, false);
+  assert.equal(result.structuredContent.stdout, 'hello world');
+});
+
+test('run_skill_script is refused when the user declines', async () => {
+  const result = await runGreet(async () => ({ action: 'decline' }));
+  assert.equal(result.isError, true);
+  assert.equal(result.content[0].text, 'Error: The user declined to run scripts/greet.sh world');
+});
+
+test('run_skill_script is refused when confirmation fails', async () => {
+  const result = await runGreet(async () => {
+    throw new Error('client went away');
+  });
+  assert.equal(result.isError, true);
+  assert.match(result.content[0].text, /^Error: Confirmation failed: .*client went away/);
+
+  // A response that doesn't match the requested schema fails the same way
+  const invalid = await runGreet(async () => ({ action: 'accept', content: { confirm: 'yes' } }));
+  assert.equal(invalid.isError, true);
+  assert.match(invalid.content[0].text, /^Error: Confirmation failed: /);
+});
+
+test('run_skill_script is refused when the client cannot confirm', async () => {
+  const result = await runGreet();
+  assert.equal(result.isError, true);
+  assert.match(result.content[0].text, /does not support elicitation/);
+});
@@ -0,0 +1,139 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, symlinkSync } from 'fs';
+import { join } from 'path';
+import { createTestHome, writeFiles, writeSettings, skillMarkdown } from './helpers.mjs';
+
+const home = createTestHome();
+const skillsDir = join(home, '.ai-skills-hub', 'skills');
+const outsideDir = join(home, 'outside');
+
+writeFiles(skillsDir, {
+  'go/SKILL.md': skillMarkdown('go'),
+  'go/resources/guide.md': '# Guide\n',
+  'go/resources/large.txt': 'x'.repeat(2048),
+  'go/scripts/run.sh': 'echo ok\n',
+});
+writeFiles(outsideDir, {
+  'secret.txt': 'secret\n',
+  'evil.sh': 'echo evil\n',
+});
+symlinkSync(join(outsideDir, 'secret.txt'), join(skillsDir, 'go/resources/escape.txt'));
+symlinkSync(join(skillsDir, 'go/resources/guide.md'), join(skillsDir, 'go/resources/alias.md'));
+symlinkSync(outsideDir, join(skillsDir, 'go/linked'));
+mkdirSync(join(skillsDir, 'go/empty'));
+
+const { validateSkillPath, resolveContainedPath, readContainedFile, SkillPathError } = await import('../dist/skillfs.js');
+const { readResourceByUri, readSkillFile, executeSkillScript } = await import('../dist/utils.js');
+const { SkillRegistry } = await import('../dist/registry.js');
+
+const rejected = { name: 'SkillPathError' };
+
+test('validateSkillPath rejects parent segments', () => {
+  for (const path of ['..', '../secret.txt', 'go/../../secret.txt', 'go/resources/../../..', 'go/./SKILL.md', 'go//SKILL.md']) {
+    assert.throws(() => validateSkillPath(path), SkillPathError, path);
+  }
+});
+
+test('validateSkillPath rejects absolute and Windows paths', () => {
+  for (const path of ['/etc/passwd', '//server/share', 'C:/Windows/win.ini', 'c:secret', 'go\\..\\..\\secret.txt', '..\\secret.txt']) {
+    assert.throws(() => validateSkillPath(path), SkillPathError, path);
+  }
+});
+
+test('validateSkillPath rejects empty paths and control characters', () => {
+  for (const path of ['', 'go/SKILL.md\u0000.png', 'go/\nSKILL.md']) {
+    assert.throws(() => validateSkillPath(path), SkillPathError, JSON.stringify(path));
+  }
+});
+
+test('validateSkillPath accepts nested relative paths', () => {
+  assert.deepEqual(validateSkillPath('go/resources/guide.md'), ['go', 'resources', 'guide.md']);
+  assert.deepEqual(validateSkillPath('go/resources/..guide.md'), ['go', 'resources', '..guide.md']);
+});
+
+test('symlinks escaping the root are rejected by default', async () => {
+  await assert.rejects(resolveContainedPath(skillsDir, 'go/resources/escape.txt'), /outside the skill root/);
+  await assert.rejects(resolveContainedPath(skillsDir, 'go/linked/secret.txt'), /outside the skill root/);
+  await assert.rejects(readContainedFile(skillsDir, 'go/resources/escape.txt'), rejected);
+});
+
+test('symlinks inside the root follow the symlink policy', async () => {
+  const guide = await readContainedFile(skillsDir, 'go/resources/alias.md');
+  assert.equal(guide.toString('utf-8'), '# Guide\n');
+
+  await assert.rejects(readContainedFile(skillsDir, 'go/resources/alias.md', { symlinks: 'deny' }), /Symlinks are not allowed/);
+  await assert.rejects(readContainedFile(skillsDir, 'go/resources/escape.txt', { symlinks: 'deny' }), /Symlinks are not allowed/);
+
+  const secret = await readContainedFile(skillsDir, 'go/resources/escape.txt', { symlinks: 'follow' });
+  assert.equal(secret.toString('utf-8'), 'secret\n');
+});
+
+test('readContainedFile enforces the size cap and refuses directories', async () => {
+  await assert.rejects(readContainedFile(skillsDir, 'go/resources/large.txt', { maxFileBytes: 1024 }), /larger than 1024 bytes/);
+  await assert.rejects(readContainedFile(skillsDir, 'go/empty'), /Not a file/);
+  const content = await readContainedFile(skillsDir, 'go/resources/large.txt', { maxFileBytes: 4096 });
+  assert.equal(content.length, 2048);
+});
+
+test('readResourceByUri rejects traversal', async () => {
+  for (const uri of [
+    'skill://../outside/secret.txt',
+    'skill://go/../../outside/secret.txt',
+    'skill://go/resources/../../../outside/secret.txt',
+    `skill://${join(outsideDir, 'secret.txt')}`,
+    'skill://C:/Windows/win.ini',
+    'skill://go\\..\\..\\outside\\secret.txt',
+  ]) {
+    await assert.rejects(readResourceByUri(uri), rejected, uri);
+  }
+});
+
+test('readResourceByUri rejects percent-encoded traversal', async () => {
+  for (const uri of [
+    'skill://%2e%2e/outside/secret.txt',
+    'skill://go/%2E%2E/%2E%2E/outside/secret.txt',
+    'skill://go%2f..%2f..%2foutside%2fsecret.txt',
+    'skill://%2Fetc%2Fpasswd',
+    'skill://go%5c..%5c..%5coutside%5csecret.txt',
+    'skill://go/SKILL.md%00.png',
+  ]) {
+    await assert.rejects(readResourceByUri(uri), rejected, uri);
+  }
+  await assert.rejects(readResourceByUri('skill://go/%E0%A4%A'), /Malformed resource URI/);
+});
+
+test('readResourceByUri rejects symlinks escaping the root', async () => {
+  await assert.rejects(readResourceByUri('skill://go/resources/escape.txt'), /outside the skill root/);
+  await assert.rejects(readResourceByUri('skill://go/linked/secret.txt'), /outside the skill root/);
+  await assert.rejects(readResourceByUri('skill://go/linked%2fsecret.txt'), /outside the skill root/);
+});
+
+test('readResourceByUri reads files inside the skill', async () => {
+  const resource = await readResourceByUri('skill://go/resources/guide.md');
+  assert.equal(resource.text, '# Guide\n');
+});
+
+test('readSkillFile rejects traversal', async () => {
+  await assert.rejects(readSkillFile('../outside/secret.txt'), rejected);
+  await assert.rejects(readSkillFile('go/resources/escape.txt'), rejected);
+});
+
+test('executeSkillScript refuses scripts outside the skill', async () => {
+  await assert.rejects(executeSkillScript('go', '../../outside/evil.sh'), rejected);
+  await assert.rejects(executeSkillScript('go', join(outsideDir, 'evil.sh')), rejected);
+  await assert.rejects(executeSkillScript('go', 'linked/evil.sh'), /outside the skill root/);
+});
+
+test('resource listings skip symlinks and files over the size cap', async () => {
+  writeSettings(home, { fileAccess: { maxFileBytes: 1024 } });
+  try {
+    const resources = await new SkillRegistry().listResources();
+    assert.deepEqual(resources.map(resource => resource.uri), [
+      'skill://go/SKILL.md',
+      'skill://go/resources/guide.md',
+    ]);
+  } finally {
+    writeSettings(home, {});
+  }
+});
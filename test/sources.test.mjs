@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { createTestHome } from './helpers.mjs';
+
+const home = createTestHome();
+const cliPath = join(dirname(fileURLToPath(import.meta.url)), '..', 'dist', 'cli.js');
+
+const { parseGitSpec, detectSourceKind, resolveSource } = await import('../dist/sources.js');
+
+test('git specs are split into URL, ref and subpath', () => {
+  assert.deepEqual(parseGitSpec('git+https://example.com/acme/skills.git#v1.2:skills/deploy/'), {
+    url: 'https://example.com/acme/skills.git',
+    ref: 'v1.2',
+    subpath: 'skills/deploy',
+  });
+  assert.deepEqual(parseGitSpec('git@example.com:acme/skills.git#:skills'), {
+    url: 'git@example.com:acme/skills.git',
+    ref: undefined,
+    subpath: 'skills',
+  });
+  assert.deepEqual(parseGitSpec('git+https://example.com/acme/skills.git'), { url: 'https://example.com/acme/skills.git' });
+  assert.equal(parseGitSpec('https://example.com/acme/skills.git'), null);
+});
+
+test('git URLs and refs that look like options are rejected', async () => {
+  const marker = join(home, 'pwned');
+  const spec = `git+--upload-pack=touch ${marker}`;
+
+  assert.throws(() => parseGitSpec(spec), /Invalid git repository URL: "--upload-pack=touch /);
+  assert.throws(() => parseGitSpec('git+'), /Invalid git repository URL/);
+  assert.throws(() => parseGitSpec('git+https://example.com/acme/skills.git#--output=/tmp/x'), /Invalid git ref: "--output=\/tmp\/x"/);
+  assert.throws(() => detectSourceKind('git@example.com:acme/skills.git#-b:skills'), /Invalid git ref: "-b"/);
+  await assert.rejects(resolveSource(spec), /Invalid git repository URL/);
+
+  const result = spawnSync(process.execPath, [cliPath, 'add', spec, '--yes'], {
+    cwd: home,
+    env: { ...process.env, HOME: home },
+    encoding: 'utf-8',
+  });
+  assert.equal(result.status, 1);
+  assert.match(result.stderr, /Invalid git repository URL/);
+  assert.equal(existsSync(marker), false);
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { mkdirSync, readFileSync, rmSync, statSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { createTestHome, writeFiles } from './helpers.mjs';
+
+const home = createTestHome();
+const cli = fileURLToPath(new URL('../dist/cli.js', import.meta.url));
+const claudeConfig = join(home, '.config', 'Claude', 'claude_desktop_config.json');
+
+// Dry runs only: a real sync also pulls and builds the package checkout
+function syncDryRun(...args) {
+  return execFileSync(process.execPath, [cli, 'sync', '--dry-run', ...args], { cwd: home, env: { ...process.env, HOME: home }, encoding: 'utf-8' });
+}
+
+test('sync refuses to replace a config it cannot read', () => {
+  // A directory in place of the config file fails to read, file permissions don't stop root
+  mkdirSync(claudeConfig, { recursive: true });
+  try {
+    const output = syncDryRun('--only', 'claude-desktop');
+    assert.match(output, /Unable to read .*claude_desktop_config\.json/);
+    assert.match(output, /was left unchanged/);
+    assert.doesNotMatch(output, /ai-skills-hub"/);
+    assert.ok(statSync(claudeConfig).isDirectory());
+  } finally {
+    rmSync(claudeConfig, { recursive: true });
+  }
+});
+
+test('sync edits a readable config', () => {
+  const content = '{\n  // other servers\n  "mcpServers": { "other": { "command": "x" } }\n}\n';
+  writeFiles(home, { '.config/Claude/claude_desktop_config.json': content });
+  const output = syncDryRun('--only', 'claude-desktop');
+  assert.match(output, /"ai-skills-hub": \{/);
+  assert.match(output, /Would update: .*claude_desktop_config\.json/);
+  assert.doesNotMatch(output, /left unchanged/);
+  assert.equal(readFileSync(claudeConfig, 'utf-8'), content);
+});
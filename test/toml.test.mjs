@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+const { TomlDocument, parseToml } = await import('../dist/toml.js');
+const { codex } = await import('../dist/agents/codex.js');
+
+const server = { command: 'npx', args: ['-y', 'ai-skills-hub'] };
+
+test('the parser rejects tables that are already defined', () => {
+  assert.throws(() => parseToml('a = { b = 1 }\n[a.c]\n'), /already defined by an inline table/);
+  assert.throws(() => parseToml('a = { b = 1 }\n[a]\n'), /already defined by an inline table/);
+  assert.throws(() => parseToml('a = { b = { c = 1 } }\n[[a.b.d]]\n'), /already defined by an inline table/);
+  assert.throws(() => parseToml('a = { b = 1 }\na.c = 2\n'), /defined twice/);
+  assert.throws(() => parseToml('[a]\nb.c = 1\n[a.b]\n'), /already defined by dotted keys/);
+  assert.throws(() => parseToml('[a]\n[a]\n'), /defined twice/);
+});
+
+test('the parser accepts subtables of tables defined by dotted keys', () => {
+  assert.deepEqual(parseToml('[a]\nb.c = 1\n[a.b.d]\ne = 2\n'), { a: { b: { c: 1, d: { e: 2 } } } });
+});
+
+test('codex upsert adds a [table] next to the other servers', () => {
+  const content = '[mcp_servers.other]\ncommand = "x"\n\n[profile]\nmodel = "o3"\n';
+  const updated = codex.upsert(content, server);
+  assert.equal(updated, '[mcp_servers.other]\ncommand = "x"\n\n[mcp_servers.ai-skills-hub]\ncommand = "npx"\nargs = ["-y", "ai-skills-hub"]\n\n[profile]\nmodel = "o3"\n');
+  assert.deepEqual(codex.read(updated), server);
+  assert.equal(codex.remove(updated), content);
+});
+
+test('codex upsert writes into an inline mcp_servers table', () => {
+  const content = 'mcp_servers = { other = { command = "x" } }\n';
+  const updated = codex.upsert(content, { ...server, env: { DEBUG: '1' } });
+  assert.equal(updated, 'mcp_servers = { other = { command = "x" }, ai-skills-hub = { command = "npx", args = ["-y", "ai-skills-hub"], env = { DEBUG = "1" } } }\n');
+  assert.doesNotMatch(updated, /\[mcp_servers/);
+  assert.deepEqual(parseToml(updated).mcp_servers.other, { command: 'x' });
+  assert.deepEqual(codex.read(updated), { ...server, env: { DEBUG: '1' } });
+
+  // Updating keeps a single entry, unsync leaves the other server as it was
+  assert.equal(codex.upsert(updated, { ...server, env: { DEBUG: '1' } }), updated);
+  assert.equal(codex.remove(updated), content);
+});
+
+test('codex upsert writes into an existing inline ai-skills-hub entry', () => {
+  const content = '[mcp_servers]\nai-skills-hub = { command = "node" }\n';
+  const updated = codex.upsert(content, server);
+  assert.equal(updated, '[mcp_servers]\nai-skills-hub = { command = "npx", args = ["-y", "ai-skills-hub"] }\n');
+  assert.equal(codex.remove(updated), '[mcp_servers]\n');
+});
+
+test('ensureTable refuses a table below a value that is not a table', () => {
+  const doc = new TomlDocument('mcp_servers = { other = "x" }\n');
+  assert.throws(() => doc.ensureTable(['mcp_servers', 'other', 'env']), /other is not a table/);
+  assert.throws(() => new TomlDocument('mcp_servers = "x"\n').ensureTable(['mcp_servers', 'ai-skills-hub']), /mcp_servers is not a table/);
+  assert.throws(() => new TomlDocument('[mcp_servers]\nx = 1\n').ensureTable(['mcp_servers', 'x']), /already has a value/);
+});
@@ -0,0 +1,72 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { createTestHome, writeFiles } from './helpers.mjs';
+
+const home = createTestHome();
+const userDir = join(home, '.ai-skills-hub', 'skills');
+const teamDir = join(home, 'team-skills');
+process.env.SKILLSHUB_PATH = teamDir;
+
+const skill = (description, body = '# Go\n') => `---\nname: go\ndescription: ${description}\n---\n${body}`;
+writeFiles(userDir, {
+  'go/SKILL.md': skill('User go skill'),
+  'go/resources/guide.md': '# User guide\n',
+});
+writeFiles(teamDir, {
+  'go/SKILL.md': skill('Team go skill'),
+  'go/resources/guide.md': '# Team guide\n',
+});
+
+const { watchSkills } = await import('../dist/watcher.js');
+
+let changes = [];
+const unwatch = watchSkills(change => changes.push(change));
+after(unwatch);
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Write files and collect the change notifications of the next debounced rescans
+ */
+async function changesAfter(baseDir, files) {
+  changes = [];
+  writeFiles(baseDir, files);
+  await sleep(800);
+  return {
+    toolsChanged: changes.some(change => change.toolsChanged),
+    resourcesChanged: changes.some(change => change.resourcesChanged),
+    changedUris: new Set(changes.flatMap(change => change.changedUris)),
+    count: changes.length,
+  };
+}
+
+// Initial snapshot
+await sleep(500);
+
+test('edits to a shadowed file do not update the URI it shares', async () => {
+  const change = await changesAfter(userDir, { 'go/resources/guide.md': '# User guide, edited\n' });
+  assert.ok(change.count > 0);
+  assert.equal(change.changedUris.has('skill://go/resources/guide.md'), false);
+  assert.equal(change.toolsChanged, false);
+});
+
+test('edits to the served file update its URI', async () => {
+  const change = await changesAfter(teamDir, { 'go/resources/guide.md': '# Team guide\n\nEdited.\n' });
+  assert.equal(change.changedUris.has('skill://go/resources/guide.md'), true);
+  assert.equal(change.toolsChanged, false);
+  assert.equal(change.resourcesChanged, false);
+});
+
+test('a frontmatter edit changes the tool list even when the tool names stay the same', async () => {
+  const change = await changesAfter(teamDir, { 'go/SKILL.md': skill('Team go skill, now with benchmarks') });
+  assert.equal(change.toolsChanged, true);
+  assert.equal(change.resourcesChanged, true);
+  assert.equal(change.changedUris.has('skill://go/SKILL.md'), true);
+});
+
+test('a body edit leaves the tool list alone', async () => {
+  const change = await changesAfter(teamDir, { 'go/SKILL.md': skill('Team go skill, now with benchmarks', '# Go\n\nMore text.\n') });
+  assert.equal(change.toolsChanged, false);
+  assert.equal(change.changedUris.has('skill://go/SKILL.md'), true);
+});